@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { callBackend, jsonError, readTokens, setSessionCookies } from "@/lib/server/backend";
+import { isRecord } from "@/lib/api/validators";
+
+// Exchange credentials for backend tokens; the tokens go into httpOnly cookies
+// and the browser only learns who is signed in and for how long
+export async function POST(request: NextRequest) {
+  const credentials = await request.json().catch(() => null);
+  if (!isRecord(credentials) || typeof credentials.email !== "string" || typeof credentials.password !== "string") {
+    return jsonError(400, "Email and password are required");
+  }
+
+  try {
+    const upstream = await callBackend("/auth/login", {
+      method: "POST",
+      body: JSON.stringify({ email: credentials.email, password: credentials.password }),
+    });
+
+    if (!upstream.ok) {
+      return jsonError(upstream.status, "Login failed");
+    }
+
+    const tokens = await readTokens(upstream);
+    if (!tokens) {
+      return jsonError(502, "Unexpected response from backend");
+    }
+
+    const response = NextResponse.json({ email: credentials.email, expires_in: tokens.expires_in });
+    setSessionCookies(response, credentials.email, tokens);
+    return response;
+  } catch (error) {
+    console.error("[api proxy] Login failed:", error);
+    return jsonError(502, "Backend unavailable");
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ACCESS_COOKIE, REFRESH_COOKIE, callBackend, clearSessionCookies } from "@/lib/server/backend";
+
+// Revoke on the backend when possible, but always drop the cookies
+export async function POST(request: NextRequest) {
+  const accessToken = request.cookies.get(ACCESS_COOKIE)?.value;
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+
+  if (accessToken) {
+    try {
+      await callBackend("/auth/logout", { method: "POST", body: JSON.stringify({ refresh_token: refreshToken }) }, accessToken);
+    } catch (error) {
+      console.error("[api proxy] Backend logout failed:", error);
+    }
+  }
+
+  const response = NextResponse.json({ success: true });
+  clearSessionCookies(response);
+  return response;
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { EMAIL_COOKIE, REFRESH_COOKIE, clearSessionCookies, jsonError, refreshTokens, setSessionCookies } from "@/lib/server/backend";
+
+export async function POST(request: NextRequest) {
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+  const email = request.cookies.get(EMAIL_COOKIE)?.value;
+
+  const tokens = refreshToken && email ? await refreshTokens(refreshToken) : null;
+  if (!tokens || !email) {
+    const response = jsonError(401, "Session expired");
+    clearSessionCookies(response);
+    return response;
+  }
+
+  const response = NextResponse.json({ email, expires_in: tokens.expires_in });
+  setSessionCookies(response, email, tokens, refreshToken);
+  return response;
+}
@@ -0,0 +1,6 @@
+import { NextRequest } from "next/server";
+import { proxyRequest } from "@/lib/server/backend";
+
+export async function GET(request: NextRequest) {
+  return proxyRequest(request, "/auth/status");
+}
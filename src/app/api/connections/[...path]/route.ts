@@ -0,0 +1,11 @@
+import { NextRequest } from "next/server";
+import { proxyRequest } from "@/lib/server/backend";
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { path } = await params;
+  return proxyRequest(request, `/connections/${path.map(encodeURIComponent).join("/")}`);
+}
@@ -0,0 +1,14 @@
+import { NextRequest } from "next/server";
+import { proxyRequest } from "@/lib/server/backend";
+
+interface RouteContext {
+  params: Promise<{ path?: string[] }>;
+}
+
+async function handle(request: NextRequest, { params }: RouteContext) {
+  const { path = [] } = await params;
+  const suffix = path.length ? `/${path.map(encodeURIComponent).join("/")}` : "";
+  return proxyRequest(request, `/knowledge-bases${suffix}`);
+}
+
+export { handle as GET, handle as POST, handle as PUT, handle as PATCH, handle as DELETE };
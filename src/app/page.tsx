@@ -2,10 +2,11 @@
 
 import { useAuth } from "@/hooks/useAuth";
 import { FilePicker } from "@/components/file-picker/FilePicker";
+import { LoginDialog } from "@/components/auth/LoginDialog";
 import { Skeleton } from "@/components/ui/skeleton";
 
 export default function Home() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, sessionExpired, signIn, isSigningIn, signInError } = useAuth();
 
   // Show loading state while authenticating
   if (isLoading) {
@@ -19,15 +20,12 @@ export default function Home() {
     );
   }
 
-  // Show error if not authenticated
+  // Ask for credentials if there is no (valid) session
   if (!isAuthenticated) {
     return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="text-center">
-          <h2 className="text-2xl font-semibold">Authentication Failed</h2>
-          <p className="text-gray-600 mt-2">Please check your credentials</p>
-        </div>
-      </div>
+      <main className="min-h-screen bg-gray-50">
+        <LoginDialog open sessionExpired={sessionExpired} isSubmitting={isSigningIn} error={signInError} onSubmit={signIn} />
+      </main>
     );
   }
 
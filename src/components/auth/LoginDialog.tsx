@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ApiAuthError } from "@/lib/api/errors";
+import type { LoginCredentials } from "@/lib/types/auth";
+
+interface LoginDialogProps {
+  open: boolean;
+  sessionExpired?: boolean;
+  isSubmitting?: boolean;
+  error?: Error | null;
+  onSubmit: (credentials: LoginCredentials) => void;
+}
+
+export function LoginDialog({ open, sessionExpired, isSubmitting, error, onSubmit }: LoginDialogProps) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const errorMessage = error ? (error instanceof ApiAuthError ? "Invalid email or password." : "Unable to sign in. Please try again.") : null;
+
+  return (
+    // Sign-in is mandatory, so the dialog can't be dismissed by escape or outside clicks
+    <Dialog open={open}>
+      <DialogContent showCloseButton={false} onEscapeKeyDown={(e) => e.preventDefault()} onInteractOutside={(e) => e.preventDefault()}>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSubmit({ email: email.trim(), password });
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle>Sign in to Stack AI</DialogTitle>
+            <DialogDescription>{sessionExpired ? "Your session has expired. Please sign in again." : "Use your Stack AI account to access your Google Drive files."}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <label htmlFor="login-email" className="text-sm font-medium">
+              Email
+            </label>
+            <Input id="login-email" type="email" autoComplete="email" required value={email} onChange={(e) => setEmail(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="login-password" className="text-sm font-medium">
+              Password
+            </label>
+            <Input id="login-password" type="password" autoComplete="current-password" required value={password} onChange={(e) => setPassword(e.target.value)} />
+          </div>
+
+          {errorMessage && <p className="text-sm text-red-600">{errorMessage}</p>}
+
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting || !email || !password} className="bg-blue-600 hover:bg-blue-700">
+              {isSubmitting ? "Signing in..." : "Sign in"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
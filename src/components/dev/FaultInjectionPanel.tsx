@@ -0,0 +1,87 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  FaultConfig,
+  DEFAULT_FAULT_CONFIG,
+  getFaultConfig,
+  getServerFaultConfig,
+  isFaultInjectionAvailable,
+  subscribeFaultConfig,
+  triggerRateLimitBurst,
+  updateFaultConfig,
+} from "@/lib/api/faultInjection";
+
+type NumericFault = { [K in keyof FaultConfig]: FaultConfig[K] extends number ? K : never }[keyof FaultConfig];
+
+const NUMERIC_FIELDS: { key: NumericFault; label: string; step: number; max?: number }[] = [
+  { key: "latencyMs", label: "Latency (ms)", step: 100 },
+  { key: "latencyJitterMs", label: "Jitter (ms)", step: 100 },
+  { key: "serverErrorRate", label: "Random 500 rate", step: 0.05, max: 1 },
+  { key: "malformedJsonRate", label: "Malformed JSON rate", step: 0.05, max: 1 },
+  { key: "stuckPendingRate", label: "Stuck pending rate", step: 0.05, max: 1 },
+  { key: "deleteFailureRate", label: "Delete failure rate", step: 0.05, max: 1 },
+  { key: "rateLimitRetryAfterSec", label: "429 Retry-After (s)", step: 1 },
+];
+
+// Floating dev-only panel for toggling API fault injection
+export function FaultInjectionPanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [burstSize, setBurstSize] = useState(3);
+  const config = useSyncExternalStore(subscribeFaultConfig, getFaultConfig, getServerFaultConfig);
+
+  if (!isFaultInjectionAvailable) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 text-sm">
+      {isOpen ? (
+        <div className="w-72 rounded-md border-2 border-gray-300 bg-white p-3 shadow-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold">Fault injection</span>
+            <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)}>
+              Close
+            </Button>
+          </div>
+
+          <label className="flex items-center gap-2">
+            <Checkbox checked={config.enabled} onCheckedChange={(value) => updateFaultConfig({ enabled: !!value })} />
+            Enabled
+          </label>
+
+          {NUMERIC_FIELDS.map(({ key, label, step, max }) => (
+            <label key={key} className="flex items-center justify-between gap-2">
+              <span className="text-gray-700">{label}</span>
+              <Input
+                type="number"
+                min={0}
+                max={max}
+                step={step}
+                value={config[key]}
+                onChange={(e) => updateFaultConfig({ [key]: Number(e.target.value) || 0 })}
+                className="h-7 w-24"
+              />
+            </label>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Input type="number" min={1} value={burstSize} onChange={(e) => setBurstSize(Number(e.target.value) || 1)} className="h-7 w-16" />
+            <Button variant="outline" size="sm" disabled={!config.enabled} onClick={() => triggerRateLimitBurst(burstSize)}>
+              Send 429 burst
+            </Button>
+          </div>
+
+          <Button variant="outline" size="sm" className="w-full" onClick={() => updateFaultConfig(DEFAULT_FAULT_CONFIG)}>
+            Reset
+          </Button>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setIsOpen(true)} className={config.enabled ? "border-red-500 text-red-600" : ""}>
+          {config.enabled ? "Faults: ON" : "Faults"}
+        </Button>
+      )}
+    </div>
+  );
+}
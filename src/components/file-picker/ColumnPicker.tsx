@@ -0,0 +1,100 @@
+import { useEffect, useId, useRef, useState } from "react";
+import { Table } from "@tanstack/react-table";
+import { ChevronDown, ChevronUp, Columns3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface ColumnPickerProps<T> {
+  table: Table<T>;
+  labels: Record<string, string>;
+  onReset: () => void;
+}
+
+// Menu for showing, hiding and reordering the optional columns; fixed columns (selection, name) stay first
+export function ColumnPicker<T>({ table, labels, onReset }: ColumnPickerProps<T>) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const menuId = useId();
+
+  // Close on a click outside or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const allColumns = table.getAllLeafColumns();
+  const fixedIds = allColumns.filter((column) => !column.getCanHide()).map((column) => column.id);
+
+  // Optional columns in display order; ones missing from a saved order keep their default place after it
+  const columnOrder = table.getState().columnOrder;
+  const rank = (id: string) => (columnOrder.includes(id) ? columnOrder.indexOf(id) : columnOrder.length + allColumns.findIndex((column) => column.id === id));
+  const movableColumns = allColumns.filter((column) => column.getCanHide()).sort((a, b) => rank(a.id) - rank(b.id));
+
+  const moveColumn = (index: number, offset: number) => {
+    const ids = movableColumns.map((column) => column.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    table.setColumnOrder([...fixedIds, ...ids]);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <Button variant="outline" size="sm" aria-haspopup="true" aria-expanded={isOpen} aria-controls={menuId} onClick={() => setIsOpen((open) => !open)}>
+        <Columns3 className="h-4 w-4" />
+        Columns
+      </Button>
+
+      {isOpen && (
+        <div id={menuId} role="group" aria-label="Table columns" className="absolute bottom-full right-0 z-20 mb-1 w-64 rounded-md border border-gray-200 bg-white py-1 shadow-md">
+          <ul>
+            {movableColumns.map((column, index) => {
+              const label = labels[column.id] ?? column.id;
+              return (
+                <li key={column.id} className="flex items-center gap-2 px-3 py-1.5 hover:bg-gray-50">
+                  <label className="flex flex-1 items-center gap-2 font-normal">
+                    <Checkbox checked={column.getIsVisible()} onCheckedChange={(value) => column.toggleVisibility(!!value)} className="h-4 w-4" />
+                    {label}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => moveColumn(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${label} left`}
+                    className="rounded p-0.5 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveColumn(index, 1)}
+                    disabled={index === movableColumns.length - 1}
+                    aria-label={`Move ${label} right`}
+                    className="rounded p-0.5 text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="mt-1 border-t border-gray-100 px-3 pt-1.5 pb-0.5">
+            <button type="button" onClick={onReset} className="text-xs font-medium text-blue-600 hover:underline">
+              Reset columns and widths
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DEFAULT_INDEXING_PARAMS, EMBEDDING_MODELS, FILE_TYPE_OPTIONS, validateCreateKBDetails } from "@/lib/utils/kbValidation";
+import type { CreateKBDetails, IndexingParams } from "@/lib/types/knowledgeBase";
+import type { SelectionSummary as SelectionSummaryData } from "@/lib/tree/folderSizes";
+import { SelectionSummary } from "./SelectionSummary";
+
+interface CreateKBDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectedCount: number;
+  selectionSummary?: SelectionSummaryData;
+  existingNames: string[];
+  isCreating?: boolean;
+  initialDetails?: CreateKBDetails; // e.g. what was submitted before the backend rejected it
+  onSubmit: (details: CreateKBDetails) => void;
+}
+
+const fieldLabel = "text-sm font-medium text-gray-900";
+const fieldError = "text-xs text-red-600";
+
+export function CreateKBDialog({ open, onOpenChange, selectedCount, selectionSummary, existingNames, isCreating, initialDetails, onSubmit }: CreateKBDialogProps) {
+  const [name, setName] = useState(initialDetails?.name ?? "");
+  const [description, setDescription] = useState(initialDetails?.description ?? "");
+  const [params, setParams] = useState<IndexingParams>(initialDetails?.indexing_params ?? DEFAULT_INDEXING_PARAMS);
+  const [submitted, setSubmitted] = useState(false);
+
+  const details: CreateKBDetails = { name: name.trim(), description: description.trim(), indexing_params: params };
+  const errors = validateCreateKBDetails(details, existingNames);
+  const isValid = Object.keys(errors).length === 0;
+  // Only nag about errors once the user tried to submit
+  const visibleErrors = submitted ? errors : {};
+
+  const updateParams = (changes: Partial<IndexingParams>) => setParams((prev) => ({ ...prev, ...changes }));
+
+  const toggleFileType = (type: string, checked: boolean) => {
+    updateParams({
+      allowed_file_types: checked ? [...params.allowed_file_types, type] : params.allowed_file_types.filter((t) => t !== type),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSubmitted(true);
+            if (isValid) onSubmit(details);
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle>Create Knowledge Base</DialogTitle>
+            <DialogDescription>Index {selectedCount} selected item(s) from Google Drive.</DialogDescription>
+            {selectionSummary && <SelectionSummary summary={selectionSummary} className="text-sm text-gray-700" />}
+          </DialogHeader>
+
+          <div className="space-y-1">
+            <label htmlFor="kb-name" className={fieldLabel}>
+              Name
+            </label>
+            <Input id="kb-name" autoFocus value={name} onChange={(e) => setName(e.target.value)} aria-invalid={!!visibleErrors.name} placeholder="e.g. Legal contracts 2025" />
+            {visibleErrors.name && <p className={fieldError}>{visibleErrors.name}</p>}
+          </div>
+
+          <div className="space-y-1">
+            <label htmlFor="kb-description" className={fieldLabel}>
+              Description
+            </label>
+            <textarea
+              id="kb-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              aria-invalid={!!visibleErrors.description}
+              className="w-full rounded-md border border-input px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] aria-invalid:border-destructive"
+            />
+            {visibleErrors.description && <p className={fieldError}>{visibleErrors.description}</p>}
+          </div>
+
+          <fieldset className="space-y-3 rounded-md border border-gray-200 p-3">
+            <legend className="px-1 text-sm font-semibold text-gray-900">Indexing</legend>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label htmlFor="kb-chunk-size" className={fieldLabel}>
+                  Chunk size
+                </label>
+                <Input
+                  id="kb-chunk-size"
+                  type="number"
+                  value={params.chunk_size}
+                  onChange={(e) => updateParams({ chunk_size: Number(e.target.value) })}
+                  aria-invalid={!!visibleErrors.chunk_size}
+                />
+                {visibleErrors.chunk_size && <p className={fieldError}>{visibleErrors.chunk_size}</p>}
+              </div>
+
+              <div className="space-y-1">
+                <label htmlFor="kb-chunk-overlap" className={fieldLabel}>
+                  Chunk overlap
+                </label>
+                <Input
+                  id="kb-chunk-overlap"
+                  type="number"
+                  value={params.chunk_overlap}
+                  onChange={(e) => updateParams({ chunk_overlap: Number(e.target.value) })}
+                  aria-invalid={!!visibleErrors.chunk_overlap}
+                />
+                {visibleErrors.chunk_overlap && <p className={fieldError}>{visibleErrors.chunk_overlap}</p>}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label htmlFor="kb-embedding-model" className={fieldLabel}>
+                Embedding model
+              </label>
+              <select
+                id="kb-embedding-model"
+                value={params.embedding_model}
+                onChange={(e) => updateParams({ embedding_model: e.target.value })}
+                className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs"
+              >
+                {EMBEDDING_MODELS.map((model) => (
+                  <option key={model} value={model}>
+                    {model}
+                  </option>
+                ))}
+              </select>
+              {visibleErrors.embedding_model && <p className={fieldError}>{visibleErrors.embedding_model}</p>}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={params.ocr} onCheckedChange={(value) => updateParams({ ocr: !!value })} />
+              Run OCR on scanned documents and images
+            </label>
+
+            <div className="space-y-1">
+              <span className={fieldLabel}>File types</span>
+              <p className="text-xs text-gray-500">Leave all unchecked to index every file type.</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-2 pt-1">
+                {FILE_TYPE_OPTIONS.map((type) => (
+                  <label key={type} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox checked={params.allowed_file_types.includes(type)} onCheckedChange={(value) => toggleFileType(type, !!value)} />.{type}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </fieldset>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isCreating || (submitted && !isValid)} className="bg-blue-600 hover:bg-blue-700">
+              {isCreating ? "Creating KB..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,67 @@
+import { File, Folder } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { getTreeNode } from "@/lib/tree/fileTreeStore";
+import { FileItem } from "@/lib/types/file";
+
+interface DriveSearchResultsProps {
+  matches: FileItem[];
+  isCrawling: boolean;
+  isTruncated: boolean;
+  error: Error | null;
+  isSelected: (fileId: string) => boolean;
+  onSelect: (fileId: string, isSelected: boolean) => void;
+  onReveal: (fileId: string) => void;
+  onRetry: () => void;
+}
+
+// Whole-Drive search matches with their full paths; selecting one works like selecting it in the tree
+export function DriveSearchResults({ matches, isCrawling, isTruncated, error, isSelected, onSelect, onReveal, onRetry }: DriveSearchResultsProps) {
+  return (
+    <div className="flex-1 overflow-y-auto">
+      {error && (
+        <div role="alert" className="flex items-center justify-between gap-2 border-b border-red-200 bg-red-50 px-4 py-2 text-sm text-red-800">
+          <span>Couldn&apos;t finish scanning Drive, so some matches may be missing.</span>
+          <Button variant="outline" size="sm" onClick={onRetry}>
+            Retry
+          </Button>
+        </div>
+      )}
+
+      {matches.length === 0 ? (
+        <p className="p-6 text-center text-sm text-gray-500">{isCrawling ? "Searching Drive..." : "No files in Drive match your search."}</p>
+      ) : (
+        <ul aria-label="Search results" className="divide-y divide-gray-100">
+          {matches.map((item) => {
+            const path = getTreeNode(item.id)?.path ?? item.name;
+            return (
+              <li key={item.id} className="flex items-center gap-3 px-3 py-2 hover:bg-gray-50">
+                <Checkbox
+                  checked={isSelected(item.id)}
+                  onCheckedChange={(value) => onSelect(item.id, !!value)}
+                  aria-label={`Select ${path}`}
+                  className="border-2 border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600 h-4 w-4"
+                />
+                {item.type === "directory" ? <Folder className="h-4 w-4 flex-shrink-0 text-blue-500" /> : <File className="h-4 w-4 flex-shrink-0 text-gray-500" />}
+                <button
+                  type="button"
+                  onClick={() => onReveal(item.id)}
+                  title="Show in folder"
+                  className="min-w-0 flex-1 truncate text-left hover:text-blue-700 hover:underline"
+                >
+                  {path}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {(isCrawling || isTruncated) && matches.length > 0 && (
+        <p className="px-4 py-2 text-xs text-gray-500">
+          {isTruncated ? "Showing the first matches - refine your search to narrow them down." : "Still scanning Drive, more matches may appear..."}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { formatRelativeTime } from "@/lib/utils/format";
+
+interface FileDateCellProps {
+  value?: string;
+  relative?: boolean; // "5 min. ago" instead of the date
+}
+
+export function FileDateCell({ value, relative }: FileDateCellProps) {
+  if (!value) {
+    return <span className="text-gray-400">-</span>;
+  }
+
+  const date = new Date(value);
+  return (
+    <time dateTime={value} title={date.toLocaleString()} className="whitespace-nowrap text-gray-700">
+      {relative ? formatRelativeTime(date) : date.toLocaleDateString()}
+    </time>
+  );
+}
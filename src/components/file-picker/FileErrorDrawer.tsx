@@ -0,0 +1,69 @@
+import { toast } from "react-toastify";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { buildFileDiagnostics } from "@/lib/utils/fileErrors";
+import { FileItem } from "@/lib/types/file";
+
+interface FileErrorDrawerProps {
+  file: FileItem | null;
+  kbId: string | null;
+  onOpenChange: (open: boolean) => void;
+  onRetry?: (fileId: string) => void;
+  isRetrying?: boolean;
+}
+
+// Side panel with everything the backend told us about a failed file
+export function FileErrorDrawer({ file, kbId, onOpenChange, onRetry, isRetrying }: FileErrorDrawerProps) {
+  const copyDiagnostics = async () => {
+    if (!file) return;
+    try {
+      await navigator.clipboard.writeText(buildFileDiagnostics(file, kbId));
+      toast.success("Diagnostics copied to clipboard");
+    } catch {
+      toast.error("Couldn't access the clipboard");
+    }
+  };
+
+  const rows = file
+    ? [
+        { label: "Status", value: file.status },
+        { label: "Error code", value: file.error_code },
+        { label: "Attempts", value: file.attempt_count },
+        { label: "Last attempt", value: file.last_attempt_at && new Date(file.last_attempt_at).toLocaleString() },
+        { label: "Resource ID", value: file.id },
+      ]
+    : [];
+
+  return (
+    <Dialog open={!!file} onOpenChange={onOpenChange}>
+      <DialogContent className="top-0 right-0 left-auto h-full max-w-full translate-x-0 translate-y-0 content-start rounded-none sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{file?.status === "error" ? "Indexing failed" : "Indexing details"}</DialogTitle>
+          <DialogDescription className="break-all">{file?.name}</DialogDescription>
+        </DialogHeader>
+
+        <p className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">{file?.error_message ?? "The backend didn't report a reason."}</p>
+
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+          {rows.map(({ label, value }) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="break-all font-medium text-gray-900">{value ?? "-"}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={copyDiagnostics}>
+            Copy diagnostics
+          </Button>
+          {file && onRetry && (
+            <Button onClick={() => onRetry(file.id)} disabled={isRetrying}>
+              {isRetrying ? "Retrying..." : "Retry"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
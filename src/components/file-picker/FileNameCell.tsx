@@ -40,11 +40,14 @@ export function FileNameCell({ file, isFiltering, toggleFolder }: FileNameCellPr
           variant="ghost"
           size="sm"
           className="h-4 w-4 p-0 hover:bg-gray-100"
+          // Keyboard users open folders with Right/Left on the row
+          tabIndex={-1}
+          aria-label={isExpanded ? "Collapse folder" : "Expand folder"}
           onClick={(e) => {
             e.stopPropagation();
             toggleFolder?.(file.id);
           }}
-          disabled={isLoading}
+          title={isLoading ? "Cancel loading" : undefined}
         >
           {isLoading ? (
             <div className="h-3 w-3 animate-spin rounded-full border border-gray-300 border-t-blue-600" />
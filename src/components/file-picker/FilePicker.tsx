@@ -1,20 +1,44 @@
 "use client";
 
+import { useCallback, useEffect, useRef } from "react";
+import { useAuth } from "@/hooks/useAuth";
 import { useFileTree } from "@/hooks/useFileTree";
 import { useKnowledgeBaseOperations } from "@/hooks/useKnowledgeBaseOperations";
+import { useStalledFiles } from "@/hooks/useStalledFiles";
 import { FilePickerTable } from "./FilePickerTable";
+import { KnowledgeBaseList } from "./KnowledgeBaseList";
+import { KnowledgeBaseSummary } from "./KnowledgeBaseSummary";
+import { StalledIndexingBanner } from "./StalledIndexingBanner";
+import { Button } from "@/components/ui/button";
 
 export function FilePicker() {
+  const { user, signOut, isSigningOut } = useAuth();
   const {
     currentKB,
     hasKB,
     isCreating,
     createKnowledgeBaseWithFiles,
+    addResourcesToKB,
+    isAddingResources,
     createNewKB,
+    knowledgeBases,
+    isLoadingKBs,
+    switchKB,
+    renameKB,
+    deleteKB,
+    isDeletingKB,
     statusMap,
-    statusCounts,
-    allFilesSettled,
-    isPolling,
+    errorDetails,
+    indexedAtMap,
+    summary,
+    folderRollups,
+    isLoadingSummary,
+    isStalled,
+    resumeChecking,
+    retryFailedFiles,
+    isRetrying,
+    isFileRetrying,
+    getRetryCount,
     // Deletion functions
     isDeleting,
     deleteSelectedFiles,
@@ -23,11 +47,28 @@ export function FilePicker() {
     canDeleteFolder,
   } = useKnowledgeBaseOperations();
 
-  const { files, isLoading, error, toggleFolder, collapseAllFolders } = useFileTree({
+  // Retry failed files, then resume polling for any expanded folder that holds them. The file tree
+  // both takes this callback and provides refreshFolderStatuses, so that's reached through a ref
+  const refreshFolderStatusesRef = useRef<(fileIds: string[]) => void>(undefined);
+  const retryFiles = useCallback(
+    (fileIds: string[]) => retryFailedFiles(fileIds, { onSuccess: () => refreshFolderStatusesRef.current?.(fileIds) }),
+    [retryFailedFiles]
+  );
+
+  const { files, isLoading, error, toggleFolder, revealItem, collapseAllFolders, refreshFolderStatuses } = useFileTree({
     kbId: currentKB?.id || null,
     statusMap,
+    errorDetails,
+    indexedAtMap,
+    onRetryFailed: retryFiles,
   });
 
+  useEffect(() => {
+    refreshFolderStatusesRef.current = refreshFolderStatuses;
+  }, [refreshFolderStatuses]);
+
+  const { stalledIds, isFileStalled, resetStalledFiles } = useStalledFiles({ files, kbId: currentKB?.id || null });
+
   // Show error if any
   if (error) {
     return (
@@ -40,34 +81,84 @@ export function FilePicker() {
 
   return (
     <div className="h-screen flex flex-col">
-      <div className="flex-shrink-0 p-4 pb-2">
+      <div className="flex-shrink-0 p-4 pb-2 flex items-center justify-between">
         <h1 className="text-2xl font-bold mb-2">Google Drive File Picker</h1>
+        <div className="flex items-center gap-3 text-sm text-gray-700">
+          {user && <span>{user.email}</span>}
+          <Button variant="outline" size="sm" onClick={signOut} disabled={isSigningOut}>
+            {isSigningOut ? "Signing out..." : "Sign out"}
+          </Button>
+        </div>
       </div>
 
-      <div className="flex-1 min-h-0 p-4">
-        <FilePickerTable
-          files={files}
-          isLoading={isLoading || isCreating || isDeleting}
-          toggleFolder={toggleFolder}
-          onCreateKB={(resourceIds, files) => {
-            createKnowledgeBaseWithFiles(resourceIds, files);
-            // Collapse all folders after KB creation to force refresh
-            setTimeout(() => collapseAllFolders(), 1000);
-          }}
-          onCreateNewKB={createNewKB}
-          onDeleteFiles={(selectedIds) => {
-            deleteSelectedFiles(selectedIds, files);
-            // Collapse all folders after deletion to force refresh
-            setTimeout(() => collapseAllFolders(), 1000);
-          }}
-          hasKB={hasKB}
-          isCreatingKB={isCreating}
-          isDeletingKB={isDeleting}
-          statusMap={statusMap}
-          canDeleteFile={canDeleteFile}
-          canDeleteFolder={(folder) => canDeleteFolder(folder, files)}
-          isFileDeleting={isFileDeleting}
+      <div className="flex-1 min-h-0 p-4 flex gap-4">
+        <KnowledgeBaseList
+          knowledgeBases={knowledgeBases}
+          activeKBId={currentKB?.id ?? null}
+          isLoading={isLoadingKBs}
+          isDeletingKB={isDeletingKB}
+          onSelect={switchKB}
+          onCreateNew={createNewKB}
+          onRename={renameKB}
+          onDelete={deleteKB}
         />
+
+        <div className="flex-1 min-w-0 flex flex-col gap-3">
+          {currentKB && <KnowledgeBaseSummary kb={currentKB} summary={summary} isLoading={isLoadingSummary} />}
+          {hasKB && (isStalled || stalledIds.size > 0) && (
+            <StalledIndexingBanner
+              stalledFileCount={stalledIds.size}
+              onResume={() => {
+                resumeChecking();
+                refreshFolderStatuses(Array.from(stalledIds));
+                resetStalledFiles();
+              }}
+            />
+          )}
+          <div className="flex-1 min-h-0">
+            <FilePickerTable
+              // Remount per KB so selection and filters don't leak between knowledge bases
+              key={currentKB?.id ?? "new-kb"}
+              files={files}
+              isLoading={isLoading || isCreating || isDeleting}
+              toggleFolder={toggleFolder}
+              revealItem={revealItem}
+              onCreateKB={(resourceIds, _files, details) => {
+                createKnowledgeBaseWithFiles(resourceIds, details);
+                // Collapse all folders after KB creation to force refresh
+                setTimeout(() => collapseAllFolders(), 1000);
+              }}
+              onAddToKB={(resourceIds, files) => {
+                addResourcesToKB(resourceIds, files);
+                // Collapse all folders after adding so nested statuses are refetched
+                setTimeout(() => collapseAllFolders(), 1000);
+              }}
+              onCreateNewKB={createNewKB}
+              onDeleteFiles={(selectedIds) => {
+                deleteSelectedFiles(selectedIds, files);
+                // Collapse all folders after deletion to force refresh
+                setTimeout(() => collapseAllFolders(), 1000);
+              }}
+              onRetryFiles={retryFiles}
+              hasKB={hasKB}
+              isCreatingKB={isCreating}
+              isAddingToKB={isAddingResources}
+              isDeletingKB={isDeleting}
+              statusMap={statusMap}
+              canDeleteFile={canDeleteFile}
+              canDeleteFolder={(folder) => canDeleteFolder(folder, files)}
+              isFileDeleting={isFileDeleting}
+              isFileRetrying={isFileRetrying}
+              isFileStalled={isFileStalled}
+              getRetryCount={getRetryCount}
+              folderRollups={folderRollups}
+              isRetrying={isRetrying}
+              existingKBNames={knowledgeBases.map((kb) => kb.name)}
+              kbId={currentKB?.id ?? null}
+              userEmail={user?.email ?? null}
+            />
+          </div>
+        </div>
       </div>
     </div>
   );
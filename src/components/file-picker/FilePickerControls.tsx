@@ -1,65 +1,165 @@
+import { useState } from "react";
+import { toast } from "react-toastify";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { FileItem } from "@/lib/types/file";
+import { SelectionSummary } from "@/lib/tree/folderSizes";
+import { CreateKBDetails } from "@/lib/types/knowledgeBase";
+import { CreateKBDialog } from "./CreateKBDialog";
+import { FilterQueryInput } from "./FilterQueryInput";
 
 interface FilePickerControlsProps {
   searchValue: string;
   onSearchChange: (value: string) => void;
+  searchScope: "loaded" | "drive";
+  onSearchScopeChange: (scope: "loaded" | "drive") => void;
+  isSearchingDrive?: boolean;
   filteredCount: number;
   selectedFiles: FileItem[];
-  selectedResourceIds: string[];
+  resolveResourceIds: () => Promise<string[]>;
+  deletableIds: string[];
   hasKB: boolean | undefined;
   isCreatingKB: boolean | undefined;
+  isAddingToKB: boolean | undefined;
   isDeletingKB: boolean | undefined;
-  onCreateKB?: (resourceIds: string[], files: FileItem[]) => void;
+  onCreateKB?: (resourceIds: string[], files: FileItem[], details: CreateKBDetails) => void;
+  onAddToKB?: (resourceIds: string[], files: FileItem[]) => void;
   onCreateNewKB?: () => void;
   onDeleteFiles?: (selectedIds: string[]) => void;
+  failedIds: string[];
+  isRetrying: boolean | undefined;
+  onRetryFailed?: (fileIds: string[]) => void;
   allFiles: FileItem[];
+  existingKBNames?: string[];
+  selectionSummary?: SelectionSummary;
 }
 
 export function FilePickerControls({
   searchValue,
   onSearchChange,
+  searchScope,
+  onSearchScopeChange,
+  isSearchingDrive,
   filteredCount,
   selectedFiles,
-  selectedResourceIds,
+  resolveResourceIds,
+  deletableIds,
   hasKB,
   isCreatingKB,
+  isAddingToKB,
   isDeletingKB,
   onCreateKB,
+  onAddToKB,
   onCreateNewKB,
   onDeleteFiles,
+  failedIds,
+  isRetrying,
+  onRetryFailed,
   allFiles,
+  existingKBNames = [],
+  selectionSummary,
 }: FilePickerControlsProps) {
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  // Last submitted KB details, so reopening the dialog after a failed create keeps them for fixing
+  const [createDetails, setCreateDetails] = useState<CreateKBDetails>();
+  // Selected folders that never loaded are listed before submitting, so their subfolders aren't left out
+  const [isResolvingSelection, setIsResolvingSelection] = useState(false);
+
+  const submitSelection = async (submit: (resourceIds: string[]) => void) => {
+    setIsResolvingSelection(true);
+    try {
+      submit(await resolveResourceIds());
+    } catch (error) {
+      console.error("Failed to load selected folders:", error);
+      toast.error("Couldn't load the contents of the selected folders. Please try again.");
+    } finally {
+      setIsResolvingSelection(false);
+    }
+  };
+
   return (
     <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 flex-shrink-0">
       {/* Search Section */}
-      <div className="flex items-center space-x-2 flex-1">
-        <Input
-          placeholder="Filter by name or status (indexed, pending, etc.)"
+      <div className="flex items-start space-x-2 flex-1">
+        <FilterQueryInput
+          placeholder={searchScope === "drive" ? "Search all of Google Drive, e.g. contracts type:pdf" : "Filter, e.g. status:error type:pdf size:>5MB -name:draft"}
           value={searchValue}
-          onChange={(event) => onSearchChange(event.target.value)}
-          className="w-full lg:w-180 border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+          onChange={onSearchChange}
+          className="w-full lg:w-180"
         />
-        {searchValue && <span className="text-sm text-gray-500 whitespace-nowrap">Showing {filteredCount} filtered results</span>}
+        <div role="group" aria-label="Search scope" className="flex flex-shrink-0 overflow-hidden rounded-md border border-gray-300 text-sm">
+          {(["loaded", "drive"] as const).map((scope) => (
+            <button
+              key={scope}
+              type="button"
+              aria-pressed={searchScope === scope}
+              onClick={() => onSearchScopeChange(scope)}
+              className={`px-3 py-1.5 whitespace-nowrap ${searchScope === scope ? "bg-blue-600 text-white" : "bg-white text-gray-700 hover:bg-gray-100"}`}
+            >
+              {scope === "loaded" ? "Loaded folders" : "All of Drive"}
+            </button>
+          ))}
+        </div>
+        {searchValue && (
+          <span className="text-sm text-gray-500 whitespace-nowrap">
+            {searchScope === "drive" ? `${filteredCount} match(es)${isSearchingDrive ? ", still searching..." : ""}` : `Showing ${filteredCount} filtered results`}
+          </span>
+        )}
       </div>
 
       {/* Action Buttons */}
       <div className="display grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 flex-shrink-0">
         {!hasKB ? (
-          <Button disabled={selectedFiles.length === 0 || isCreatingKB} className="bg-blue-600 hover:bg-blue-700" onClick={() => onCreateKB?.(selectedResourceIds, allFiles)}>
-            {isCreatingKB ? "Creating KB..." : `Create Knowledge Base (${selectedFiles.length} files)`}
-          </Button>
+          <>
+            <Button
+              disabled={selectedFiles.length === 0 || isCreatingKB || isResolvingSelection}
+              className="bg-blue-600 hover:bg-blue-700"
+              onClick={() => setIsCreateDialogOpen(true)}
+            >
+              {isCreatingKB
+                ? "Creating KB..."
+                : isResolvingSelection
+                  ? "Loading selected folders..."
+                  : `Create Knowledge Base (${selectedFiles.length} files)`}
+            </Button>
+            {isCreateDialogOpen && (
+              <CreateKBDialog
+                open
+                onOpenChange={setIsCreateDialogOpen}
+                selectedCount={selectedFiles.length}
+                selectionSummary={selectionSummary}
+                existingNames={existingKBNames}
+                isCreating={isCreatingKB}
+                initialDetails={createDetails}
+                onSubmit={(details) => {
+                  setCreateDetails(details);
+                  setIsCreateDialogOpen(false);
+                  submitSelection((resourceIds) => onCreateKB?.(resourceIds, allFiles, details));
+                }}
+              />
+            )}
+          </>
         ) : (
           <>
+            <Button
+              disabled={selectedFiles.length === 0 || isAddingToKB || isDeletingKB || isResolvingSelection}
+              onClick={() => submitSelection((resourceIds) => onAddToKB?.(resourceIds, allFiles))}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {isAddingToKB ? "Adding..." : isResolvingSelection ? "Loading selected folders..." : `Add to Knowledge Base (${selectedFiles.length})`}
+            </Button>
             <Button
               variant="outline"
-              disabled={selectedFiles.length === 0 || isDeletingKB}
-              onClick={() => onDeleteFiles?.(selectedResourceIds)}
+              disabled={deletableIds.length === 0 || isDeletingKB}
+              onClick={() => onDeleteFiles?.(deletableIds)}
               className="text-red-600 hover:text-red-700 hover:bg-red-50"
             >
-              {isDeletingKB ? "Deleting..." : `Delete Selected Files (${selectedFiles.length})`}
+              {isDeletingKB ? "Deleting..." : `Delete Selected Files (${deletableIds.length})`}
             </Button>
+            {failedIds.length > 0 && (
+              <Button variant="outline" disabled={isRetrying} onClick={() => onRetryFailed?.(failedIds)}>
+                {isRetrying ? "Retrying..." : `Retry Failed (${failedIds.length})`}
+              </Button>
+            )}
             <Button variant="outline" onClick={onCreateNewKB} disabled={isDeletingKB}>
               Create New Knowledge Base
             </Button>
@@ -1,20 +1,23 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import React from "react";
 import {
   ColumnDef,
   ColumnFiltersState,
+  HeaderContext,
   SortingState,
-  VisibilityState,
+  Updater,
   flexRender,
+  functionalUpdate,
   getCoreRowModel,
+  getExpandedRowModel,
   getFilteredRowModel,
-  getPaginationRowModel,
   getSortedRowModel,
   useReactTable,
 } from "@tanstack/react-table";
-import { ArrowUpDown } from "lucide-react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -24,46 +27,187 @@ import { FilePickerControls } from "./FilePickerControls";
 import { FileNameCell } from "./FileNameCell";
 import { FileSizeCell } from "./FileSizeCell";
 import { FileStatusCell } from "./FileStatusCell";
+import { FileTypeCell } from "./FileTypeCell";
+import { FileDateCell } from "./FileDateCell";
+import { ColumnPicker } from "./ColumnPicker";
+import { SelectionSummary } from "./SelectionSummary";
+import { FileErrorDrawer } from "./FileErrorDrawer";
+import { DriveSearchResults } from "./DriveSearchResults";
+import { useDriveSearch } from "@/hooks/useDriveSearch";
 import { useFileSelection } from "@/hooks/useFileSelection";
+import { useFolderSizes } from "@/hooks/useFolderSizes";
+import { useStatusAnnouncements } from "@/hooks/useStatusAnnouncements";
+import { useTableLayout } from "@/hooks/useTableLayout";
+import { useTreeGridNavigation } from "@/hooks/useTreeGridNavigation";
 import { FileItem } from "@/lib/types/file";
+import { CreateKBDetails } from "@/lib/types/knowledgeBase";
+import { memoizePerTreeVersion, subscribeTree } from "@/lib/tree/fileTreeStore";
+import { summarizeSelection } from "@/lib/tree/folderSizes";
+import { FOLDERS_FIRST_COLUMN, fileSortingFns } from "@/lib/tree/sorting";
+import { matchesFilterQuery } from "@/lib/utils/filterQuery";
+import { FolderRollup } from "@/lib/utils/folderRollup";
+import { TableLayout } from "@/lib/utils/localStorage";
 
 interface FilePickerTableProps {
   files: FileItem[];
   isLoading?: boolean;
   toggleFolder?: (folderId: string) => void;
-  onCreateKB?: (resourceIds: string[], files: FileItem[]) => void;
+  revealItem?: (fileId: string) => Promise<void>;
+  onCreateKB?: (resourceIds: string[], files: FileItem[], details: CreateKBDetails) => void;
+  onAddToKB?: (resourceIds: string[], files: FileItem[]) => void;
   onCreateNewKB?: () => void;
   onDeleteFiles?: (selectedIds: string[]) => void;
+  onRetryFiles?: (fileIds: string[]) => void;
   hasKB?: boolean;
   isCreatingKB?: boolean;
+  isAddingToKB?: boolean;
   isDeletingKB?: boolean;
   statusMap?: Map<string, string>;
   canDeleteFile?: (file: FileItem) => boolean;
   canDeleteFolder?: (folder: FileItem) => boolean;
   isFileDeleting?: (fileId: string) => boolean;
+  isFileRetrying?: (fileId: string) => boolean;
+  isFileStalled?: (fileId: string) => boolean;
+  getRetryCount?: (fileId: string) => number;
+  folderRollups?: Map<string, FolderRollup>;
+  isRetrying?: boolean;
+  existingKBNames?: string[];
+  kbId?: string | null;
+  userEmail?: string | null;
+}
+
+// Estimated row height before measurement; rows with an error message render taller
+const ROW_HEIGHT = 41;
+
+// Names for the column picker
+const COLUMN_LABELS: Record<string, string> = {
+  size: "Size",
+  mime_type: "Type",
+  modified_at: "Modified",
+  indexed_at: "Indexed",
+  owner: "Owner",
+  status: "Status",
+};
+
+// Layout before the user rearranges anything: owner is opt-in, widths come from the column defs
+const DEFAULT_TABLE_LAYOUT: TableLayout = {
+  columnOrder: [],
+  columnVisibility: { owner: false },
+  columnSizing: {},
+};
+
+// Header button that sorts its column; shift+click adds it to the existing sort instead
+function SortableHeader({ column, table, label, className }: HeaderContext<FileItem, unknown> & { label: string; className?: string }) {
+  const direction = column.getIsSorted();
+  // Position among the columns the user sorted by (the folders-first key doesn't count)
+  const userSorting = table.getState().sorting.filter((sort) => sort.id !== FOLDERS_FIRST_COLUMN);
+  const sortIndex = userSorting.findIndex((sort) => sort.id === column.id);
+  const Icon = direction === "asc" ? ArrowUp : direction === "desc" ? ArrowDown : ArrowUpDown;
+
+  return (
+    <Button variant="ghost" onClick={column.getToggleSortingHandler()} title="Click to sort, shift+click to sort by several columns" className={className}>
+      {label}
+      <Icon className={`ml-2 h-4 w-4 ${direction ? "text-blue-600" : "text-gray-400"}`} />
+      {/* Position in a multi-column sort */}
+      {userSorting.length > 1 && sortIndex >= 0 && <span className="text-xs text-blue-600">{sortIndex + 1}</span>}
+    </Button>
+  );
 }
 
 export function FilePickerTable({
   files,
   isLoading,
   toggleFolder,
+  revealItem,
   onCreateKB,
+  onAddToKB,
   onCreateNewKB,
   onDeleteFiles,
+  onRetryFiles,
   hasKB,
   isCreatingKB,
+  isAddingToKB,
   isDeletingKB,
   // statusMap,
   canDeleteFile,
   canDeleteFolder,
   isFileDeleting,
+  isFileRetrying,
+  isFileStalled,
+  getRetryCount,
+  folderRollups,
+  isRetrying,
+  existingKBNames,
+  kbId = null,
+  userEmail = null,
 }: FilePickerTableProps) {
   const [sorting, setSorting] = useState<SortingState>([]);
+  const [foldersFirst, setFoldersFirst] = useState(false);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
-  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({});
+  // Column order, visibility and widths, remembered per user
+  const {
+    columnOrder,
+    columnVisibility,
+    columnSizing,
+    columnSizingInfo,
+    setColumnOrder,
+    setColumnVisibility,
+    setColumnSizing,
+    setColumnSizingInfo,
+    resetLayout,
+  } = useTableLayout({
+    userEmail,
+    defaultLayout: DEFAULT_TABLE_LAYOUT,
+  });
+  // Failed file whose details are open; looked up by id so the drawer follows status updates
+  const [detailsFileId, setDetailsFileId] = useState<string | null>(null);
+  const detailsFile = useMemo(() => files.find((file) => file.id === detailsFileId) ?? null, [files, detailsFileId]);
+
+  // "loaded" filters the rows in the tree; "drive" searches every folder, expanded or not
+  const [searchScope, setSearchScope] = useState<"loaded" | "drive">("loaded");
+  const [driveQuery, setDriveQuery] = useState("");
+  const driveSearch = useDriveSearch({ query: driveQuery, enabled: searchScope === "drive" });
+  const isShowingDriveResults = searchScope === "drive" && driveQuery.trim() !== "";
+
+  // Search results can be selected without being in the tree, so selection covers both
+  const selectableFiles = useMemo(() => {
+    if (driveSearch.items.length === 0) return files;
+    const inTree = new Set(files.map((file) => file.id));
+    return [...files, ...driveSearch.items.filter((item) => !inTree.has(item.id))];
+  }, [files, driveSearch.items]);
 
   // Use custom selection hook
-  const { rowSelection, selectedFiles, selectedResourceIds, handleRowSelection, handleSelectAll } = useFileSelection({ files });
+  const {
+    rowSelection,
+    partiallySelectedIds,
+    isFileSelected,
+    selectedFiles,
+    selectedResourceIds,
+    resolveResourceIds,
+    handleRowSelection,
+    handleSelectRows,
+    handleSelectAll,
+  } = useFileSelection({ files: selectableFiles });
+
+  // Folder totals fill in as folders load; the selection summary counts every selected file under the picks
+  const { getFolderTotals, calculateFolderSizes, isCalculating, isCalculatingAny } = useFolderSizes();
+  // Folder listings change the totals without touching the selection, so the summary follows the tree store too
+  const getSelectionSummary = useMemo(
+    () => memoizePerTreeVersion(() => summarizeSelection(selectedResourceIds, isFileSelected)),
+    [selectedResourceIds, isFileSelected]
+  );
+  const selectionSummary = useSyncExternalStore(subscribeTree, getSelectionSummary, getSelectionSummary);
+  const announcement = useStatusAnnouncements(files);
+
+  // In KB mode any row can be selected for adding, but only KB items can be deleted
+  const deletableIds = useMemo(
+    () =>
+      selectedFiles.filter((file) => (file.type === "file" && canDeleteFile?.(file)) || (file.type === "directory" && canDeleteFolder?.(file))).map((file) => file.id),
+    [selectedFiles, canDeleteFile, canDeleteFolder]
+  );
+
+  // Loaded files whose indexing failed, for the bulk retry action
+  const failedIds = useMemo(() => files.filter((file) => file.type === "file" && file.status === "error").map((file) => file.id), [files]);
 
   // Define columns with custom selection logic
   const columns = useMemo<ColumnDef<FileItem>[]>(
@@ -71,14 +215,15 @@ export function FilePickerTable({
       {
         id: "select",
         header: ({ table }) => {
-          const allRowsSelected = table.getIsAllPageRowsSelected();
-          const someRowsSelected = table.getIsSomePageRowsSelected();
+          // The whole (filtered) tree, not just the rows currently rendered
+          const allRowsSelected = table.getIsAllRowsSelected();
+          const someRowsSelected = table.getIsSomeRowsSelected();
 
           return (
             <Checkbox
               checked={allRowsSelected || (someRowsSelected && "indeterminate")}
               onCheckedChange={(value) => {
-                handleSelectAll(!!value, table.getRowModel().rows);
+                handleSelectAll(!!value, table.getRowModel().rows.map((row) => row.original.id));
               }}
               aria-label="Select all"
               className="h-4 w-4"
@@ -89,49 +234,47 @@ export function FilePickerTable({
           const file = row.original;
           const fileId = file.id;
           const isSelected = rowSelection[fileId] ?? false;
+          // Folders with some, but not all, of their contents selected
+          const isPartial = partiallySelectedIds.has(fileId);
 
-          // In KB mode, only allow selection of deletable items
-          const canSelect = !hasKB || (file.type === "file" && canDeleteFile?.(file)) || (file.type === "directory" && canDeleteFolder?.(file));
+          // Items being deleted can't be picked for another action
+          const canSelect = !isFileDeleting?.(fileId);
 
           return (
             <Checkbox
-              checked={isSelected}
+              checked={isPartial ? "indeterminate" : isSelected}
               onCheckedChange={(value) => handleRowSelection(fileId, !!value)}
               aria-label="Select row"
-              onClick={(e) => e.stopPropagation()}
+              tabIndex={-1}
+              // Shift+click selects a range - leave that to the row instead of toggling just this box
+              onClick={(e) => e.shiftKey && e.preventDefault()}
               disabled={!canSelect}
-              className="border-2 border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600 h-4 w-4"
+              className="border-2 border-gray-400 data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600 data-[state=indeterminate]:bg-blue-600 data-[state=indeterminate]:border-blue-600 h-4 w-4"
             />
           );
         },
         enableSorting: false,
         enableHiding: false,
+        enableResizing: false,
+        size: 40,
+      },
+      {
+        // Never shown: sorted ahead of everything else when folders go first
+        id: FOLDERS_FIRST_COLUMN,
+        accessorFn: (row) => row.type,
+        sortingFn: fileSortingFns.kind,
+        enableHiding: false,
       },
       {
         accessorKey: "name",
-        header: ({ column }) => {
-          return (
-            <Button variant="ghost" onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}>
-              Name
-              <ArrowUpDown className="ml-2 h-4 w-4" />
-            </Button>
-          );
-        },
+        header: (context) => <SortableHeader {...context} label="Name" />,
+        sortingFn: fileSortingFns.name,
+        enableHiding: false,
+        size: 340,
+        // Filter query language, e.g. "status:error type:pdf" (plain words match name or status)
         filterFn: (row, columnId, filterValue) => {
           if (!filterValue) return true;
-
-          const file = row.original;
-          const searchTerm = filterValue.toLowerCase();
-
-          // Search by file name (show full path when searching)
-          const fileName = file.name.toLowerCase();
-          const fileNameMatch = fileName.includes(searchTerm);
-
-          // Search by status
-          const status = file.status?.toLowerCase() || "";
-          const statusMatch = status.includes(searchTerm);
-
-          return fileNameMatch || statusMatch;
+          return matchesFilterQuery(row.original, filterValue);
         },
         cell: ({ row, table }) => {
           const file = row.original;
@@ -141,107 +284,325 @@ export function FilePickerTable({
           return <FileNameCell file={file} isFiltering={isFiltering} toggleFolder={toggleFolder} />;
         },
       },
+      {
+        accessorKey: "mime_type",
+        header: (context) => <SortableHeader {...context} label="Type" />,
+        sortingFn: fileSortingFns.mimeType,
+        sortUndefined: "last",
+        size: 140,
+        cell: ({ row }) => <FileTypeCell file={row.original} />,
+      },
       {
         accessorKey: "size",
-        header: () => <div className="text-right pr-8">Size</div>,
+        header: (context) => (
+          <div className="text-right pr-4">
+            <SortableHeader {...context} label="Size" />
+          </div>
+        ),
+        sortingFn: fileSortingFns.size,
+        sortDescFirst: true,
+        size: 120,
         cell: ({ row }) => {
+          const file = row.original;
+          if (file.type === "directory") {
+            return (
+              <FileSizeCell
+                size={0}
+                folderTotals={getFolderTotals(file.id)}
+                isCalculating={isCalculating(file.id)}
+                onCalculate={() => calculateFolderSizes([file.id])}
+              />
+            );
+          }
           const size = row.getValue("size") as number;
           return <FileSizeCell size={size} />;
         },
       },
+      {
+        accessorKey: "modified_at",
+        header: (context) => <SortableHeader {...context} label="Modified" />,
+        sortingFn: fileSortingFns.modified,
+        sortUndefined: "last",
+        sortDescFirst: true,
+        size: 130,
+        cell: ({ row }) => <FileDateCell value={row.original.modified_at} />,
+      },
+      {
+        accessorKey: "indexed_at",
+        header: (context) => <SortableHeader {...context} label="Indexed" />,
+        sortingFn: fileSortingFns.indexed,
+        sortUndefined: "last",
+        sortDescFirst: true,
+        size: 130,
+        cell: ({ row }) => <FileDateCell value={row.original.indexed_at} relative />,
+      },
+      {
+        accessorKey: "owner",
+        header: (context) => <SortableHeader {...context} label="Owner" />,
+        sortingFn: fileSortingFns.owner,
+        sortUndefined: "last",
+        size: 180,
+        cell: ({ row }) => <span className="block truncate text-gray-700">{row.original.owner ?? "-"}</span>,
+      },
       {
         accessorKey: "status",
-        header: "Status",
+        header: (context) => <SortableHeader {...context} label="Status" />,
+        sortingFn: fileSortingFns.status,
+        sortUndefined: "last",
+        size: 300,
         cell: ({ row }) => {
           const file = row.original;
-          return <FileStatusCell file={file} isFileDeleting={isFileDeleting} />;
+          return (
+            <FileStatusCell
+              file={file}
+              isFileDeleting={isFileDeleting}
+              isFileRetrying={isFileRetrying}
+              isFileStalled={isFileStalled}
+              getRetryCount={getRetryCount}
+              folderRollup={file.type === "directory" ? folderRollups?.get(file.name) : undefined}
+              onRetry={onRetryFiles && ((fileId) => onRetryFiles([fileId]))}
+              onShowDetails={(file) => setDetailsFileId(file.id)}
+            />
+          );
         },
       },
     ],
-    [rowSelection, handleRowSelection, toggleFolder]
+    [
+      rowSelection,
+      partiallySelectedIds,
+      handleRowSelection,
+      toggleFolder,
+      getFolderTotals,
+      isCalculating,
+      calculateFolderSizes,
+      isFileDeleting,
+      isFileRetrying,
+      isFileStalled,
+      getRetryCount,
+      folderRollups,
+      onRetryFiles,
+    ]
+  );
+
+  // Sorting runs on the tree, not the flattened list: top-level items are the rows and each expanded
+  // folder's children are its sub-rows, so siblings are reordered among themselves and stay under their
+  // folder. Filtered results are shown flat with full paths, so those sort as one list.
+  const isFiltering = columnFilters.some((filter) => filter.id === "name" && !!filter.value);
+  const rootFiles = useMemo(() => files.filter((file) => !file.level), [files]);
+
+  const effectiveSorting = useMemo<SortingState>(
+    () => (foldersFirst ? [{ id: FOLDERS_FIRST_COLUMN, desc: false }, ...sorting] : sorting),
+    [foldersFirst, sorting]
   );
+  const handleSortingChange = (updater: Updater<SortingState>) => {
+    setSorting(functionalUpdate(updater, effectiveSorting).filter((sort) => sort.id !== FOLDERS_FIRST_COLUMN));
+  };
 
   const table = useReactTable({
-    data: files,
+    data: isFiltering ? files : rootFiles,
     columns,
-    onSortingChange: setSorting,
+    getSubRows: isFiltering ? undefined : (row) => row.children,
+    onSortingChange: handleSortingChange,
     onColumnFiltersChange: setColumnFilters,
     getCoreRowModel: getCoreRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
+    // Expansion is owned by useFileTree (collapsed folders have no children), so every sub-row shows
+    getExpandedRowModel: getExpandedRowModel(),
     onColumnVisibilityChange: setColumnVisibility,
+    onColumnOrderChange: setColumnOrder,
+    onColumnSizingChange: setColumnSizing,
+    onColumnSizingInfoChange: setColumnSizingInfo,
+    columnResizeMode: "onChange",
+    defaultColumn: { minSize: 60 },
     getRowId: (row) => row.id,
     state: {
-      sorting,
+      sorting: effectiveSorting,
       columnFilters,
-      columnVisibility,
+      columnVisibility: { ...columnVisibility, [FOLDERS_FIRST_COLUMN]: false },
+      columnOrder,
+      columnSizing,
+      columnSizingInfo,
+      expanded: true,
       rowSelection,
     },
     enableRowSelection: true,
-    initialState: {
-      pagination: {
-        pageSize: 20,
-      },
-    },
-    manualPagination: false,
   });
 
+  // Only rows near the viewport are rendered; keyed by id so status refreshes and
+  // folder expansion keep the scroll position
+  const rows = table.getRowModel().rows;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    getItemKey: (index) => rows[index].id,
+    overscan: 10,
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+  const paddingTop = virtualRows[0]?.start ?? 0;
+  const paddingBottom = virtualRows.length ? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0;
+
+  const visibleRows = rows.map((row) => row.original);
+  const { containerRef, activeId, setFocusedId, focusRow, handleKeyDown, handleRowClick } = useTreeGridNavigation({
+    rows: visibleRows,
+    isSelected: (fileId) => !!rowSelection[fileId],
+    onToggleFolder: toggleFolder,
+    onSelect: handleRowSelection,
+    onSelectRows: handleSelectRows,
+    scrollToRow: (index) => virtualizer.scrollToIndex(index, { align: "auto" }),
+  });
+
+  // Open the folders leading to a search result, then land on it in the tree
+  const revealSearchResult = async (fileId: string) => {
+    await revealItem?.(fileId);
+    setDriveQuery("");
+    focusRow(fileId);
+  };
+
   return (
     <div className="w-full h-full flex flex-col space-y-4 text-base text-gray-900">
       {/* Top Controls */}
       <FilePickerControls
-        searchValue={(table.getColumn("name")?.getFilterValue() as string) ?? ""}
-        onSearchChange={(value) => table.getColumn("name")?.setFilterValue(value)}
-        filteredCount={table.getFilteredRowModel().rows.length}
+        searchValue={searchScope === "drive" ? driveQuery : ((table.getColumn("name")?.getFilterValue() as string) ?? "")}
+        onSearchChange={(value) => (searchScope === "drive" ? setDriveQuery(value) : table.getColumn("name")?.setFilterValue(value))}
+        searchScope={searchScope}
+        onSearchScopeChange={(scope) => {
+          // Carry the query over so switching scope re-runs the same search
+          const query = searchScope === "drive" ? driveQuery : ((table.getColumn("name")?.getFilterValue() as string) ?? "");
+          table.getColumn("name")?.setFilterValue(scope === "loaded" ? query : "");
+          setDriveQuery(scope === "drive" ? query : "");
+          setSearchScope(scope);
+        }}
+        isSearchingDrive={driveSearch.isCrawling}
+        filteredCount={searchScope === "drive" ? driveSearch.matches.length : table.getFilteredRowModel().flatRows.length}
         selectedFiles={selectedFiles}
-        selectedResourceIds={selectedResourceIds}
+        resolveResourceIds={resolveResourceIds}
+        deletableIds={deletableIds}
         hasKB={hasKB}
         isCreatingKB={isCreatingKB}
+        isAddingToKB={isAddingToKB}
         isDeletingKB={isDeletingKB}
         onCreateKB={onCreateKB}
+        onAddToKB={onAddToKB}
         onCreateNewKB={onCreateNewKB}
         onDeleteFiles={onDeleteFiles}
+        failedIds={failedIds}
+        isRetrying={isRetrying}
+        onRetryFailed={onRetryFiles}
         allFiles={files}
+        existingKBNames={existingKBNames}
+        selectionSummary={selectionSummary}
       />
 
       {/* Table Container with Internal Scroll */}
       <div className="flex-1 min-h-0 rounded-md border-2 border-gray-300 flex flex-col bg-white shadow-sm">
-        <div className="flex-1 overflow-y-auto">
-          <Table>
+        {isShowingDriveResults && (
+          <DriveSearchResults
+            matches={driveSearch.matches}
+            isCrawling={driveSearch.isCrawling}
+            isTruncated={driveSearch.isTruncated}
+            error={driveSearch.error}
+            isSelected={isFileSelected}
+            onSelect={handleRowSelection}
+            onReveal={revealSearchResult}
+            onRetry={driveSearch.refresh}
+          />
+        )}
+        <div ref={scrollRef} className={isShowingDriveResults ? "hidden" : "flex-1 overflow-y-auto"}>
+          <Table
+            role="treegrid"
+            aria-label="Google Drive files"
+            aria-multiselectable
+            aria-rowcount={rows.length + 1}
+            // Fixed layout so the widths the user drags to are the widths rendered
+            className="table-fixed"
+            style={{ minWidth: table.getTotalSize() }}
+          >
             <TableHeader className="sticky top-0 bg-gray-50 z-10 border-b-2 border-gray-300">
               {table.getHeaderGroups().map((headerGroup) => (
                 <TableRow key={headerGroup.id}>
                   {headerGroup.headers.map((header) => {
+                    const direction = header.column.getIsSorted();
                     return (
-                      <TableHead key={header.id} className="bg-gray-50 font-semibold text-gray-900 border-r border-gray-200 last:border-r-1">
+                      <TableHead
+                        key={header.id}
+                        aria-sort={direction === "asc" ? "ascending" : direction === "desc" ? "descending" : undefined}
+                        style={{ width: header.getSize() }}
+                        className="relative bg-gray-50 font-semibold text-gray-900 border-r border-gray-200 last:border-r-1"
+                      >
                         {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                        {header.column.getCanResize() && (
+                          <div
+                            role="separator"
+                            aria-orientation="vertical"
+                            aria-label={`Resize ${COLUMN_LABELS[header.column.id] ?? header.column.id} column`}
+                            onMouseDown={header.getResizeHandler()}
+                            onTouchStart={header.getResizeHandler()}
+                            onDoubleClick={() => header.column.resetSize()}
+                            title="Drag to resize, double-click to reset"
+                            className={`absolute right-0 top-0 h-full w-1.5 cursor-col-resize touch-none select-none hover:bg-blue-300 ${
+                              header.column.getIsResizing() ? "bg-blue-500" : ""
+                            }`}
+                          />
+                        )}
                       </TableHead>
                     );
                   })}
                 </TableRow>
               ))}
             </TableHeader>
-            <TableBody>
+            <TableBody ref={containerRef} onKeyDown={handleKeyDown}>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={columns.length} className="p-0">
+                  <TableCell colSpan={table.getVisibleLeafColumns().length} className="p-0">
                     <TableSkeleton message={isCreatingKB ? "Creating Knowledge Base..." : isDeletingKB ? "Deleting files..." : "Loading files..."} rows={10} />
                   </TableCell>
                 </TableRow>
-              ) : table.getRowModel().rows?.length ? (
-                table.getRowModel().rows.map((row) => (
-                  <TableRow key={row.id} data-state={row.getIsSelected() && "selected"} className="hover:bg-gray-50 /* border-b border-gray-200 */ ">
-                    {row.getVisibleCells().map((cell) => (
-                      <TableCell key={cell.id} className="/* border-r border-gray-100 */ last:border-r-0 py-2.5 px-2">
-                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                      </TableCell>
-                    ))}
-                  </TableRow>
-                ))
+              ) : rows.length ? (
+                <>
+                  {paddingTop > 0 && (
+                    <tr aria-hidden style={{ height: paddingTop }}>
+                      <td colSpan={table.getVisibleLeafColumns().length} />
+                    </tr>
+                  )}
+                  {virtualRows.map((virtualRow) => {
+                    const row = rows[virtualRow.index];
+                    return (
+                      <TableRow
+                        key={row.id}
+                        ref={virtualizer.measureElement}
+                        data-index={virtualRow.index}
+                        data-row-id={row.id}
+                        aria-rowindex={virtualRow.index + 2}
+                        data-state={row.getIsSelected() && "selected"}
+                        tabIndex={row.id === activeId ? 0 : -1}
+                        aria-level={(row.original.level ?? 0) + 1}
+                        aria-expanded={row.original.type === "directory" ? !!row.original.isExpanded : undefined}
+                        aria-selected={row.getIsSelected()}
+                        aria-busy={row.original.isLoading || undefined}
+                        onFocus={() => setFocusedId(row.id)}
+                        onClick={(e) => handleRowClick(e, row.id)}
+                        className="hover:bg-gray-50 focus-visible:outline-2 focus-visible:outline-offset-[-2px] focus-visible:outline-blue-500 /* border-b border-gray-200 */ "
+                      >
+                        {row.getVisibleCells().map((cell) => (
+                          <TableCell key={cell.id} role="gridcell" className="/* border-r border-gray-100 */ last:border-r-0 py-2.5 px-2 overflow-hidden">
+                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    );
+                  })}
+                  {paddingBottom > 0 && (
+                    <tr aria-hidden style={{ height: paddingBottom }}>
+                      <td colSpan={table.getVisibleLeafColumns().length} />
+                    </tr>
+                  )}
+                </>
               ) : (
                 <TableRow>
-                  <TableCell colSpan={columns.length} className="h-24 text-center">
+                  <TableCell colSpan={table.getVisibleLeafColumns().length} className="h-24 text-center">
                     No files found.
                   </TableCell>
                 </TableRow>
@@ -249,32 +610,39 @@ export function FilePickerTable({
             </TableBody>
           </Table>
         </div>
+      </div>
 
-        {/* Load More Button - Inside Table Container */}
-        {table.getCanNextPage() && (
-          <div className="border-t-2 border-gray-300 bg-gray-50">
-            <Button
-              variant="ghost"
-              size="lg"
-              onClick={() => {
-                // Increase page size to show more items instead of going to next page
-                const currentPageSize = table.getState().pagination.pageSize;
-                table.setPageSize(currentPageSize + 20);
-              }}
-              className="w-full h-12 text-gray-800 hover:bg-gray-200 rounded-none font-medium"
-            >
-              Load more
-            </Button>
-          </div>
-        )}
+      {/* Status changes for screen readers */}
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
       </div>
 
       {/* Bottom Info - Outside Table */}
       <div className="flex items-center justify-between text-sm text-gray-700 flex-shrink-0 font-medium">
-        <div>
-          {selectedFiles.length} of {table.getFilteredRowModel().rows.length} file(s) selected.
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <span>
+            {selectedFiles.length} of {table.getFilteredRowModel().flatRows.length} item(s) selected
+          </span>
+          {selectedResourceIds.length > 0 && (
+            <SelectionSummary summary={selectionSummary} isCalculating={isCalculatingAny} onCalculate={calculateFolderSizes} className="text-gray-600" />
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 font-normal">
+            <Checkbox checked={foldersFirst} onCheckedChange={(value) => setFoldersFirst(!!value)} className="h-4 w-4" />
+            Folders first
+          </label>
+          <ColumnPicker table={table} labels={COLUMN_LABELS} onReset={resetLayout} />
         </div>
       </div>
+
+      <FileErrorDrawer
+        file={detailsFile}
+        kbId={kbId}
+        onOpenChange={(open) => !open && setDetailsFileId(null)}
+        onRetry={onRetryFiles && ((fileId) => onRetryFiles([fileId]))}
+        isRetrying={detailsFile ? isFileRetrying?.(detailsFile.id) : false}
+      />
     </div>
   );
 }
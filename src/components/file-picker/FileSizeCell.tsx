@@ -1,25 +1,55 @@
+import { formatBytes } from "@/lib/utils/format";
+import { FolderTotals } from "@/lib/tree/folderSizes";
+
 interface FileSizeCellProps {
   size: number;
+  // Directories: what's loaded below them, and a way to load the rest
+  folderTotals?: FolderTotals;
+  isCalculating?: boolean;
+  onCalculate?: () => void;
 }
 
-export function FileSizeCell({ size }: FileSizeCellProps) {
+export function FileSizeCell({ size, folderTotals, isCalculating, onCalculate }: FileSizeCellProps) {
+  if (folderTotals || onCalculate) {
+    return <FolderSize totals={folderTotals} isCalculating={isCalculating} onCalculate={onCalculate} />;
+  }
+
   if (size === 0) {
     return <div className="text-right pr-8">-</div>;
   }
 
-  const formatSize = (bytes: number): string => {
-    if (bytes > 1024 * 1024) {
-      return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-    }
-    if (bytes > 1024) {
-      return `${(bytes / 1024).toFixed(1)} KB`;
-    }
-    return `${bytes} B`;
-  };
-
   return (
     <div className="text-right pr-8">
-      {formatSize(size)}
+      {formatBytes(size)}
     </div>
   );
-} 
\ No newline at end of file
+}
+
+function FolderSize({ totals, isCalculating, onCalculate }: { totals?: FolderTotals; isCalculating?: boolean; onCalculate?: () => void }) {
+  const isExact = totals?.isComplete ?? false;
+  // Partial totals are a lower bound until the rest of the subtree is listed
+  const label = totals ? `${isExact ? "" : "≥ "}${formatBytes(totals.size)}` : null;
+  const fileCount = totals ? `${totals.fileCount} ${totals.fileCount === 1 ? "file" : "files"}${isExact ? "" : " loaded"}` : undefined;
+
+  return (
+    <div className="flex flex-col items-end pr-8 leading-tight" title={fileCount}>
+      {label && <span className={isExact ? "text-gray-900" : "text-gray-500"}>{label}</span>}
+      {isCalculating ? (
+        <span className="text-xs text-gray-500">Calculating...</span>
+      ) : !isExact && onCalculate ? (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onCalculate();
+          }}
+          className="text-xs font-medium text-blue-600 hover:underline"
+        >
+          Calculate
+        </button>
+      ) : (
+        fileCount && <span className="text-xs text-gray-500">{fileCount}</span>
+      )}
+    </div>
+  );
+}
@@ -1,33 +1,113 @@
 import { FileItem } from "@/lib/types/file";
+import { describeFileError } from "@/lib/utils/fileErrors";
+import { FolderRollup } from "@/lib/utils/folderRollup";
 
 interface FileStatusCellProps {
   file: FileItem;
   isFileDeleting?: (fileId: string) => boolean;
+  isFileRetrying?: (fileId: string) => boolean;
+  isFileStalled?: (fileId: string) => boolean;
+  getRetryCount?: (fileId: string) => number;
+  folderRollup?: FolderRollup;
+  onRetry?: (fileId: string) => void;
+  onShowDetails?: (file: FileItem) => void;
 }
 
-export function FileStatusCell({ file, isFileDeleting }: FileStatusCellProps) {
+export function FileStatusCell({ file, isFileDeleting, isFileRetrying, isFileStalled, getRetryCount, folderRollup, onRetry, onShowDetails }: FileStatusCellProps) {
   const status = file.status;
 
-  // Never show status for directories
+  // Directories show what's indexed underneath them, if anything
   if (file.type === "directory") {
-    return <span className="text-gray-400">-</span>;
+    if (!folderRollup || folderRollup.total === 0) {
+      return <span className="text-gray-400">-</span>;
+    }
+    return <FolderStatusRollup rollup={folderRollup} />;
   }
 
   if (status === "indexed") {
     return <span className="text-green-600 font-medium">✓ Indexed</span>;
   }
-  
-  if (status === "pending") {
+
+  if (status === "pending" && isFileStalled?.(file.id)) {
+    return (
+      <span className="text-amber-600 font-medium" title="No progress for several minutes - still checking in the background">
+        ⚠️ Stalled
+      </span>
+    );
+  }
+
+  if (status === "pending" || isFileRetrying?.(file.id)) {
     return <span className="text-yellow-600 font-medium">⏳ Indexing...</span>;
   }
-  
+
   if (status === "pending_delete" || isFileDeleting?.(file.id)) {
     return <span className="text-red-600 font-medium">🗑️ Deleting...</span>;
   }
 
   if (status === "error") {
-    return <span className="text-red-600 font-medium">❌ Failed</span>;
+    const retryCount = getRetryCount?.(file.id) ?? 0;
+
+    return (
+      <div className="flex items-center gap-2" title={describeFileError(file)}>
+        <span className="text-red-600 font-medium">❌ Failed</span>
+        {retryCount > 0 && <span className="text-xs text-gray-500">({retryCount} {retryCount === 1 ? "retry" : "retries"})</span>}
+        {onRetry && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onRetry(file.id);
+            }}
+            className="text-xs font-medium text-blue-600 hover:underline"
+          >
+            Retry
+          </button>
+        )}
+        {onShowDetails && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onShowDetails(file);
+            }}
+            className="text-xs font-medium text-blue-600 hover:underline"
+          >
+            Details
+          </button>
+        )}
+        {file.error_message && <span className="max-w-48 truncate text-xs text-gray-500">{file.error_message}</span>}
+      </div>
+    );
   }
 
   return <span className="text-gray-400">-</span>;
-} 
\ No newline at end of file
+}
+
+function FolderStatusRollup({ rollup }: { rollup: FolderRollup }) {
+  const percent = Math.round((rollup.indexed / rollup.total) * 100);
+  const summary = [
+    `${rollup.indexed}/${rollup.total} indexed`,
+    rollup.error > 0 && `${rollup.error} failed`,
+    rollup.pending > 0 && `${rollup.pending} pending`,
+    rollup.pending_delete > 0 && `${rollup.pending_delete} deleting`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  return (
+    <div className="flex items-center gap-2" title={summary}>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        aria-label="Folder indexing progress"
+        className="h-1.5 w-16 flex-shrink-0 overflow-hidden rounded-full bg-gray-200"
+      >
+        <div className={`h-full transition-all ${rollup.error > 0 ? "bg-amber-500" : "bg-green-500"}`} style={{ width: `${percent}%` }} />
+      </div>
+      <span className="whitespace-nowrap text-xs text-gray-600">{summary}</span>
+      {rollup.error > 0 && <span className="rounded-full bg-red-100 px-1.5 py-0.5 text-xs font-medium text-red-700">❌ {rollup.error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { File, FileCode, FileImage, FileSpreadsheet, FileText, Folder, LucideIcon } from "lucide-react";
+import { FileItem } from "@/lib/types/file";
+import { formatMimeType } from "@/lib/utils/format";
+
+interface FileTypeCellProps {
+  file: FileItem;
+}
+
+function getTypeIcon(mimeType: string): LucideIcon {
+  if (mimeType.startsWith("image/")) return FileImage;
+  if (mimeType.includes("spreadsheet") || mimeType === "text/csv") return FileSpreadsheet;
+  if (mimeType === "application/json" || mimeType.includes("javascript")) return FileCode;
+  if (mimeType.startsWith("text/") || mimeType === "application/pdf" || mimeType.includes("document")) return FileText;
+  return File;
+}
+
+export function FileTypeCell({ file }: FileTypeCellProps) {
+  if (file.type === "directory") {
+    return (
+      <span className="flex items-center gap-1.5 whitespace-nowrap text-gray-500">
+        <Folder className="h-4 w-4 flex-shrink-0 text-blue-500" />
+        Folder
+      </span>
+    );
+  }
+
+  if (!file.mime_type) {
+    return <span className="text-gray-400">-</span>;
+  }
+
+  const Icon = getTypeIcon(file.mime_type);
+  return (
+    <span className="flex items-center gap-1.5 whitespace-nowrap text-gray-700" title={file.mime_type}>
+      <Icon className="h-4 w-4 flex-shrink-0 text-gray-500" />
+      <span className="truncate">{formatMimeType(file.mime_type)}</span>
+    </span>
+  );
+}
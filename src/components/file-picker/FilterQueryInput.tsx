@@ -0,0 +1,187 @@
+import { KeyboardEvent, useId, useMemo, useRef, useState } from "react";
+import { X } from "lucide-react";
+import { FilterSuggestions, FilterTerm, getFilterSuggestions, parseFilterQuery } from "@/lib/utils/filterQuery";
+
+interface FilterQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+const NO_SUGGESTIONS: FilterSuggestions = { start: 0, end: 0, suggestions: [] };
+
+function describeTerm(term: FilterTerm): string {
+  const comparison = term.comparison === "=" ? "" : ` ${term.comparison}`;
+  return `${term.negated ? "not " : ""}${term.field ?? "text"}${comparison} ${term.value}`;
+}
+
+// Search box for the filter grammar: invalid terms are underlined, field names and values autocomplete,
+// and every active term shows as a removable chip
+export function FilterQueryInput({ value, onChange, placeholder, className }: FilterQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const listId = useId();
+  const errorId = useId();
+  const [completion, setCompletion] = useState<FilterSuggestions>(NO_SUGGESTIONS);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const parsed = useMemo(() => parseFilterQuery(value), [value]);
+  const isOpen = completion.suggestions.length > 0;
+
+  // The query split into plain and invalid stretches for the highlight layer
+  const segments = useMemo(() => {
+    const result: { text: string; isError: boolean }[] = [];
+    let position = 0;
+    [...parsed.errors]
+      .sort((a, b) => a.start - b.start)
+      .forEach((error) => {
+        if (error.start > position) result.push({ text: value.slice(position, error.start), isError: false });
+        result.push({ text: value.slice(error.start, error.end), isError: true });
+        position = error.end;
+      });
+    result.push({ text: value.slice(position), isError: false });
+    return result;
+  }, [parsed.errors, value]);
+
+  const updateSuggestions = (query: string) => {
+    setCompletion(getFilterSuggestions(query, inputRef.current?.selectionStart ?? query.length));
+    setActiveIndex(0);
+  };
+
+  const replaceRange = (start: number, end: number, replacement: string, cursor: number) => {
+    const next = value.slice(0, start) + replacement + value.slice(end);
+    onChange(next);
+    setCompletion(NO_SUGGESTIONS);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const acceptSuggestion = (suggestion: string) => {
+    // Field names keep the cursor after the colon so a value can follow
+    const replacement = suggestion.endsWith(":") ? suggestion : `${suggestion} `;
+    replaceRange(completion.start, completion.end, replacement, completion.start + replacement.length);
+  };
+
+  const removeTerm = (term: FilterTerm) => {
+    const before = value.slice(0, term.start).trimEnd();
+    const after = value.slice(term.end).trimStart();
+    const joined = before && after ? `${before} ${after}` : before + after;
+    onChange(joined);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+
+    switch (event.key) {
+      case "ArrowDown":
+        setActiveIndex((index) => (index + 1) % completion.suggestions.length);
+        break;
+      case "ArrowUp":
+        setActiveIndex((index) => (index - 1 + completion.suggestions.length) % completion.suggestions.length);
+        break;
+      case "Enter":
+      case "Tab":
+        acceptSuggestion(completion.suggestions[activeIndex]);
+        break;
+      case "Escape":
+        setCompletion(NO_SUGGESTIONS);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <div className={`flex flex-col gap-1.5 ${className ?? ""}`}>
+      <div className="relative">
+        {/* Highlight layer behind the (transparent) input text */}
+        <div
+          ref={overlayRef}
+          aria-hidden
+          className="pointer-events-none absolute inset-0 flex items-center overflow-hidden whitespace-pre rounded-md border border-transparent px-3 py-1 text-base text-gray-900 md:text-sm"
+        >
+          {segments.map((segment, index) => (
+            <span key={index} className={segment.isError ? "text-red-700 underline decoration-red-500 decoration-wavy" : undefined}>
+              {segment.text}
+            </span>
+          ))}
+        </div>
+        <input
+          ref={inputRef}
+          type="text"
+          role="combobox"
+          aria-label="Filter files"
+          aria-expanded={isOpen}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={isOpen ? `${listId}-${activeIndex}` : undefined}
+          aria-invalid={parsed.errors.length > 0}
+          aria-describedby={parsed.errors.length > 0 ? errorId : undefined}
+          placeholder={placeholder}
+          value={value}
+          spellCheck={false}
+          onChange={(event) => {
+            onChange(event.target.value);
+            updateSuggestions(event.target.value);
+          }}
+          onClick={() => updateSuggestions(value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setCompletion(NO_SUGGESTIONS)}
+          onScroll={(event) => {
+            if (overlayRef.current) overlayRef.current.scrollLeft = event.currentTarget.scrollLeft;
+          }}
+          className="relative flex h-9 w-full min-w-0 rounded-md border border-gray-300 bg-transparent px-3 py-1 text-base text-transparent caret-gray-900 shadow-xs outline-none placeholder:text-gray-500 focus-visible:border-blue-500 focus-visible:ring-[3px] focus-visible:ring-blue-500/30 aria-invalid:border-red-400 md:text-sm"
+        />
+
+        {isOpen && (
+          <ul id={listId} role="listbox" className="absolute left-0 top-full z-20 mt-1 min-w-48 overflow-hidden rounded-md border border-gray-200 bg-white py-1 text-sm shadow-md">
+            {completion.suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so the blur handler doesn't close the list first
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  acceptSuggestion(suggestion);
+                }}
+                className={`cursor-pointer px-3 py-1 font-mono ${index === activeIndex ? "bg-blue-50 text-blue-800" : "text-gray-800"}`}
+              >
+                {suggestion}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {parsed.errors.length > 0 && (
+        <p id={errorId} className="text-xs text-red-600">
+          {parsed.errors.map((error) => error.message).join(" · ")}
+        </p>
+      )}
+
+      {parsed.terms.length > 0 && (
+        <ul aria-label="Active filters" className="flex flex-wrap gap-1.5">
+          {parsed.terms.map((term) => (
+            <li key={`${term.start}-${term.raw}`} className="flex items-center gap-1 rounded-full bg-blue-50 py-0.5 pl-2.5 pr-1 text-xs text-blue-800">
+              {describeTerm(term)}
+              <button
+                type="button"
+                onClick={() => removeTerm(term)}
+                aria-label={`Remove filter ${describeTerm(term)}`}
+                className="rounded-full p-0.5 hover:bg-blue-100"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
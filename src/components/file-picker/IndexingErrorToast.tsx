@@ -0,0 +1,35 @@
+import { toast } from "react-toastify";
+
+interface IndexingErrorToastProps {
+  message: string;
+  onRetry?: () => void;
+  closeToast?: () => void;
+}
+
+function IndexingErrorToast({ message, onRetry, closeToast }: IndexingErrorToastProps) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span>{message}</span>
+      {onRetry && (
+        <button
+          type="button"
+          className="shrink-0 rounded border border-red-300 px-2 py-1 text-xs font-medium text-red-700 hover:bg-red-50"
+          onClick={() => {
+            onRetry();
+            closeToast?.();
+          }}
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Error toast with an optional "Retry" action; toastId keeps repeated polls from stacking toasts
+export function showIndexingErrorToast(fileCount: number, toastId: string, onRetry?: () => void) {
+  toast.error(({ closeToast }) => <IndexingErrorToast message={`Failed to index ${fileCount} file(s).`} onRetry={onRetry} closeToast={closeToast} />, {
+    autoClose: 8000,
+    toastId,
+  });
+}
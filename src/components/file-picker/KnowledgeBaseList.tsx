@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Check, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import type { KnowledgeBase } from "@/lib/types/knowledgeBase";
+
+interface KnowledgeBaseListProps {
+  knowledgeBases: KnowledgeBase[];
+  activeKBId: string | null;
+  isLoading?: boolean;
+  isDeletingKB?: boolean;
+  onSelect: (kbId: string) => void;
+  onCreateNew: () => void;
+  onRename: (kbId: string, name: string) => void;
+  onDelete: (kbId: string) => void;
+}
+
+export function KnowledgeBaseList({ knowledgeBases, activeKBId, isLoading, isDeletingKB, onSelect, onCreateNew, onRename, onDelete }: KnowledgeBaseListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<KnowledgeBase | null>(null);
+
+  const startEditing = (kb: KnowledgeBase) => {
+    setEditingId(kb.id);
+    setDraftName(kb.name);
+  };
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (editingId && name) {
+      onRename(editingId, name);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-64 flex-shrink-0 flex flex-col rounded-md border-2 border-gray-300 bg-white shadow-sm">
+      <div className="flex items-center justify-between border-b-2 border-gray-300 bg-gray-50 px-3 py-2">
+        <span className="font-semibold text-gray-900">Knowledge Bases</span>
+        <Button variant="ghost" size="sm" onClick={onCreateNew} title="Create new knowledge base" aria-label="Create new knowledge base">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto py-1">
+        {isLoading && <li className="px-3 py-2 text-sm text-gray-500">Loading...</li>}
+        {!isLoading && knowledgeBases.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">No knowledge bases yet.</li>}
+
+        {knowledgeBases.map((kb) => {
+          const isActive = kb.id === activeKBId;
+          const isEditing = kb.id === editingId;
+
+          return (
+            <li key={kb.id} className={cn("group flex items-center gap-1 px-2 py-1.5", isActive ? "bg-blue-50" : "hover:bg-gray-50")}>
+              {isEditing ? (
+                <>
+                  <Input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename();
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    className="h-7 text-sm"
+                  />
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={commitRename} aria-label="Save name">
+                    <Check className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditingId(null)} aria-label="Cancel rename">
+                    <X className="h-3 w-3" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <button type="button" className="flex-1 min-w-0 text-left" onClick={() => onSelect(kb.id)} aria-current={isActive}>
+                    <div className={cn("truncate text-sm", isActive ? "font-semibold text-blue-700" : "text-gray-900")}>{kb.name}</div>
+                    <div className="text-xs text-gray-500">{new Date(kb.created_at).toLocaleDateString()}</div>
+                  </button>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100" onClick={() => startEditing(kb)} aria-label={`Rename ${kb.name}`}>
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-red-600 opacity-0 group-hover:opacity-100" onClick={() => setPendingDelete(kb)} aria-label={`Delete ${kb.name}`}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Delete confirmation */}
+      <Dialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete knowledge base?</DialogTitle>
+            <DialogDescription>&quot;{pendingDelete?.name}&quot; and its index will be removed. Your Google Drive files are not affected.</DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={isDeletingKB}
+              onClick={() => {
+                if (pendingDelete) onDelete(pendingDelete.id);
+                setPendingDelete(null);
+              }}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
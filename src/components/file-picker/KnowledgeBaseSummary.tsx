@@ -0,0 +1,71 @@
+import { formatBytes, formatDuration } from "@/lib/utils/format";
+import type { KBSummary } from "@/hooks/useKnowledgeBaseSummary";
+import type { KnowledgeBase } from "@/lib/types/knowledgeBase";
+
+interface KnowledgeBaseSummaryProps {
+  kb: KnowledgeBase;
+  summary: KBSummary;
+  isLoading?: boolean;
+}
+
+const COUNT_STYLES = [
+  { key: "indexed", label: "Indexed", className: "text-green-700" },
+  { key: "pending", label: "Pending", className: "text-yellow-700" },
+  { key: "pending_delete", label: "Deleting", className: "text-gray-700" },
+  { key: "error", label: "Failed", className: "text-red-700" },
+] as const;
+
+export function KnowledgeBaseSummary({ kb, summary, isLoading }: KnowledgeBaseSummaryProps) {
+  const percent = Math.round(summary.progress * 100);
+  const isDone = summary.pending === 0 && summary.pending_delete === 0;
+
+  return (
+    <section aria-label="Indexing progress" className="rounded-md border-2 border-gray-300 bg-white px-4 py-3 shadow-sm">
+      <div className="flex flex-wrap items-baseline justify-between gap-x-4 gap-y-1">
+        <div className="min-w-0">
+          <h2 className="truncate font-semibold text-gray-900">{kb.name}</h2>
+          <p className="text-xs text-gray-500">Created {new Date(kb.created_at).toLocaleString()}</p>
+        </div>
+
+        <dl className="flex flex-wrap gap-x-4 text-sm">
+          {COUNT_STYLES.map(({ key, label, className }) => (
+            <div key={key} className="flex gap-1">
+              <dt className="text-gray-500">{label}</dt>
+              <dd className={`font-semibold ${className}`}>{summary[key]}</dd>
+            </div>
+          ))}
+          <div className="flex gap-1">
+            <dt className="text-gray-500">Indexed size</dt>
+            <dd className="font-semibold text-gray-900">{formatBytes(summary.indexedBytes)}</dd>
+          </div>
+        </dl>
+      </div>
+
+      <div className="mt-2 flex items-center gap-3">
+        <div
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+          aria-label="Indexing progress"
+          className="h-2 flex-1 overflow-hidden rounded-full bg-gray-200"
+        >
+          <div className={`h-full transition-all ${summary.error > 0 ? "bg-amber-500" : "bg-green-500"}`} style={{ width: `${percent}%` }} />
+        </div>
+        <span className="whitespace-nowrap text-right text-xs text-gray-600">
+          {isLoading
+            ? "Loading..."
+            : isDone
+              ? `${percent}% · done`
+              : [
+                  `${percent}%`,
+                  summary.throughputPerMinute !== null && `${summary.throughputPerMinute.toFixed(1)} files/min`,
+                  summary.etaMs !== null && `~${formatDuration(summary.etaMs)} left`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+        </span>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,52 @@
+import { SelectionSummary as SelectionSummaryData } from "@/lib/tree/folderSizes";
+import { formatBytes } from "@/lib/utils/format";
+
+interface SelectionSummaryProps {
+  summary: SelectionSummaryData;
+  isCalculating?: boolean;
+  onCalculate?: (folderIds: string[]) => void;
+  className?: string;
+}
+
+// Total bytes, file count and per-type breakdown of the selection; a lower bound while selected folders are unloaded
+export function SelectionSummary({ summary, isCalculating, onCalculate, className }: SelectionSummaryProps) {
+  const unloadedCount = summary.unloadedFolderIds.length;
+  const prefix = unloadedCount > 0 ? "≥ " : "";
+
+  return (
+    <div className={`flex flex-wrap items-center gap-x-3 gap-y-1 ${className ?? ""}`}>
+      <span>
+        {prefix}
+        {summary.fileCount} {summary.fileCount === 1 ? "file" : "files"} · {prefix}
+        {formatBytes(summary.size)}
+      </span>
+
+      {summary.byType.length > 0 && (
+        <ul aria-label="Selected files by type" className="flex flex-wrap gap-1.5">
+          {summary.byType.map((type) => (
+            <li key={type.label} className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-normal text-gray-700" title={formatBytes(type.size)}>
+              {type.label} {type.fileCount}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unloadedCount > 0 && (
+        <span className="text-xs font-normal text-gray-500">
+          {unloadedCount} {unloadedCount === 1 ? "folder isn't" : "folders aren't"} loaded yet
+          {onCalculate &&
+            (isCalculating ? (
+              " · Calculating..."
+            ) : (
+              <>
+                {" · "}
+                <button type="button" onClick={() => onCalculate(summary.unloadedFolderIds)} className="font-medium text-blue-600 hover:underline">
+                  Calculate
+                </button>
+              </>
+            ))}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface StalledIndexingBannerProps {
+  stalledFileCount: number;
+  onResume: () => void;
+}
+
+export function StalledIndexingBanner({ stalledFileCount, onResume }: StalledIndexingBannerProps) {
+  return (
+    <div role="status" className="flex items-center justify-between gap-4 rounded-md border border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-900">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+        <span>
+          Indexing is taking longer than expected
+          {stalledFileCount > 0 && ` - ${stalledFileCount} file(s) haven't made progress in a few minutes`}. We&apos;ll keep checking in the background.
+        </span>
+      </div>
+      <Button variant="outline" size="sm" onClick={onResume} className="border-amber-300 bg-white hover:bg-amber-100">
+        Resume checking
+      </Button>
+    </div>
+  );
+}
@@ -1,31 +1,63 @@
-import { useEffect } from "react";
-import { login, checkAuthStatus } from "@/lib/api/auth";
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { login, logout, checkAuthStatus } from "@/lib/api/auth";
+import { getServerSessionState, getSessionState, subscribeSession } from "@/lib/api/session";
+import { cancelStatusPolling } from "@/lib/api/statusPoller";
+import { resetFileTree } from "@/lib/tree/fileTreeStore";
+import { claimKBStorage, clearKBFromStorage } from "@/lib/utils/localStorage";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { LoginCredentials } from "@/lib/types/auth";
 
 export function useAuth() {
   const queryClient = useQueryClient();
+  const { session, status } = useSyncExternalStore(subscribeSession, getSessionState, getServerSessionState);
+
+  // Drop every cached resource/status so the next user starts clean
+  const clearCachedData = useCallback(() => {
+    queryClient.clear();
+    cancelStatusPolling();
+    resetFileTree();
+  }, [queryClient]);
+
+  // An expired session may be followed by a different account signing in. Stored KBs stay until
+  // someone else does (see claimKBStorage), so the same user finds their active KB again
+  useEffect(() => {
+    if (status === "expired") clearCachedData();
+  }, [status, clearCachedData]);
+
+  // Validate a stored session against the backend once per user
   const { data: authStatus, isLoading: isChecking } = useQuery({
-    queryKey: ["authStatus"],
+    queryKey: ["authStatus", session?.email],
     queryFn: checkAuthStatus,
+    enabled: !!session,
     retry: false,
   });
 
   const loginMutation = useMutation({
-    mutationFn: login,
-    onSuccess: () => {
+    mutationFn: (credentials: LoginCredentials) => login(credentials),
+    onSuccess: (_, credentials) => {
+      claimKBStorage(credentials.email);
       // Invalidate and refetch auth status
       queryClient.invalidateQueries({ queryKey: ["authStatus"] });
     },
   });
 
-  useEffect(() => {
-    if (!isChecking && !authStatus?.authenticated) {
-      loginMutation.mutate();
-    }
-  }, [isChecking, authStatus?.authenticated]);
+  const logoutMutation = useMutation({
+    mutationFn: logout,
+    onSettled: () => {
+      clearCachedData();
+      clearKBFromStorage();
+    },
+  });
 
   return {
-    isAuthenticated: authStatus?.authenticated ?? false,
-    isLoading: isChecking || loginMutation.isPending,
+    user: session ? { email: session.email } : null,
+    isAuthenticated: !!session && (authStatus?.authenticated ?? false),
+    isLoading: !!session && isChecking,
+    sessionExpired: status === "expired",
+    signIn: (credentials: LoginCredentials) => loginMutation.mutate(credentials),
+    isSigningIn: loginMutation.isPending,
+    signInError: loginMutation.error,
+    signOut: () => logoutMutation.mutate(),
+    isSigningOut: logoutMutation.isPending,
   };
 }
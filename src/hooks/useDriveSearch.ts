@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { crawlDriveFolders } from "@/lib/tree/crawlDrive";
+import { FileItem } from "@/lib/types/file";
+import { matchesFilter, parseFilterQuery } from "@/lib/utils/filterQuery";
+
+interface UseDriveSearchProps {
+  query: string;
+  enabled: boolean;
+}
+
+// Constants
+const MAX_RESULTS = 200;
+
+// Search the whole Drive, not just expanded folders: the first search walks every folder through
+// the shared Drive crawl (through the tree's ["drive-files", id] cache) and later ones match against that index
+export function useDriveSearch({ query, enabled }: UseDriveSearchProps) {
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<FileItem[]>([]);
+  const [isCrawling, setIsCrawling] = useState(false);
+  const [hasCrawled, setHasCrawled] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const crawlController = useRef<AbortController | null>(null);
+
+  const crawl = useCallback(async () => {
+    crawlController.current?.abort();
+    const controller = new AbortController();
+    crawlController.current = controller;
+
+    setItems([]);
+    setError(null);
+    setIsCrawling(true);
+
+    try {
+      // Results stream in as folders are walked; undefined is the Drive root
+      await crawlDriveFolders(queryClient, [undefined], {
+        signal: controller.signal,
+        onListing: (found) => setItems((prev) => [...prev, ...found]),
+      });
+    } catch (crawlError) {
+      if (!controller.signal.aborted) {
+        console.error("Drive search crawl failed:", crawlError);
+        setError(crawlError instanceof Error ? crawlError : new Error(String(crawlError)));
+      }
+    } finally {
+      if (crawlController.current === controller) {
+        setIsCrawling(false);
+        setHasCrawled(true);
+      }
+    }
+  }, [queryClient]);
+
+  // Build the index the first time search is used
+  useEffect(() => {
+    if (enabled && !hasCrawled && !isCrawling) crawl();
+  }, [enabled, hasCrawled, isCrawling, crawl]);
+
+  useEffect(() => () => crawlController.current?.abort(), []);
+
+  // Same filter language as the table; crawled items carry no KB status, so name/path/type/size terms are what matter here
+  // One match past the limit is kept only to tell whether anything was cut off
+  const { matches, isTruncated } = useMemo(() => {
+    const filter = parseFilterQuery(query);
+    if (filter.terms.length === 0) return { matches: [], isTruncated: false };
+
+    const found: FileItem[] = [];
+    for (const item of items) {
+      if (!matchesFilter(item, filter)) continue;
+      found.push(item);
+      if (found.length > MAX_RESULTS) break;
+    }
+    return { matches: found.slice(0, MAX_RESULTS), isTruncated: found.length > MAX_RESULTS };
+  }, [items, query]);
+
+  return {
+    items,
+    matches,
+    isTruncated,
+    isCrawling,
+    error,
+    refresh: crawl,
+  };
+}
@@ -1,4 +1,15 @@
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { crawlDriveFolders } from "@/lib/tree/crawlDrive";
+import { memoizePerTreeVersion, subscribeTree } from "@/lib/tree/fileTreeStore";
+import {
+  SelectionMarks,
+  applySelection,
+  getPartiallySelectedIds,
+  getUnloadedSelectedFolderIds,
+  isSelectedIn,
+  resolveSelectedResourceIds,
+} from "@/lib/tree/selection";
 import { FileItem } from "@/lib/types/file";
 
 interface UseFileSelectionProps {
@@ -6,115 +17,75 @@ interface UseFileSelectionProps {
 }
 
 export function useFileSelection({ files }: UseFileSelectionProps) {
-  const [rowSelection, setRowSelection] = useState<Record<string, boolean>>({});
-
-  // Build a map of parent-child relationships for efficient lookups
-  const fileRelationships = useMemo(() => {
-    const childrenMap = new Map<string, string[]>();
-    const parentMap = new Map<string, string>();
+  const queryClient = useQueryClient();
+  // Explicit include/exclude choices; what's shown checked is derived from these
+  const [marks, setMarks] = useState<SelectionMarks>({});
 
+  // Checked state of every visible row, children inheriting from their folders
+  const rowSelection = useMemo(() => {
+    const selection: Record<string, boolean> = {};
     files.forEach((file) => {
-      if (file.type === "directory") {
-        // Find all children of this directory
-        const children = files.filter((f) => f.name.startsWith(file.name + "/")).map((f) => f.id);
-
-        childrenMap.set(file.id, children);
-
-        // Map children to parent
-        children.forEach((childId) => {
-          parentMap.set(childId, file.id);
-        });
-      }
+      if (isSelectedIn(marks, file.id)) selection[file.id] = true;
     });
+    return selection;
+  }, [files, marks]);
 
-    return { childrenMap, parentMap };
-  }, [files]);
-
-  // Helper function to get all descendant IDs recursively
-  const getAllDescendantIds = useCallback(
-    (fileId: string): string[] => {
-      const descendants: string[] = [];
-      const queue = [fileId];
-
-      while (queue.length > 0) {
-        const currentId = queue.shift()!;
-        const children = fileRelationships.childrenMap.get(currentId) || [];
-
-        children.forEach((childId) => {
-          descendants.push(childId);
-          queue.push(childId);
-        });
-      }
-
-      return descendants;
-    },
-    [fileRelationships]
-  );
-
-  // Custom selection handler that maintains parent-child relationships
-  const handleRowSelection = useCallback(
-    (fileId: string, isSelected: boolean) => {
-      const file = files.find((f) => f.id === fileId);
-      if (!file) return;
+  const partiallySelectedIds = useMemo(() => getPartiallySelectedIds(marks), [marks]);
 
-      setRowSelection((prev) => {
-        const newSelection = { ...prev };
+  // Checked state of any known item, shown or not (e.g. a search result deep in a collapsed folder)
+  const isFileSelected = useCallback((fileId: string) => isSelectedIn(marks, fileId), [marks]);
 
-        // Toggle the clicked item
-        if (isSelected) {
-          newSelection[fileId] = true;
-        } else {
-          delete newSelection[fileId];
-        }
-
-        // If it's a directory, handle all descendants
-        if (file.type === "directory") {
-          const descendantIds = getAllDescendantIds(fileId);
+  // Checking a folder covers everything under it, loaded or not; unchecking a child inside it excludes just that child
+  const handleRowSelection = useCallback((fileId: string, isSelected: boolean) => {
+    setMarks((prev) => applySelection(prev, fileId, isSelected));
+  }, []);
 
-          descendantIds.forEach((id) => {
-            if (isSelected) {
-              newSelection[id] = true;
-            } else {
-              delete newSelection[id];
-            }
-          });
-        }
+  // Check or uncheck several rows at once, e.g. a Shift+click range
+  const handleSelectRows = useCallback((fileIds: string[], isSelected: boolean) => {
+    setMarks((prev) => fileIds.reduce((next, id) => applySelection(next, id, isSelected), prev));
+  }, []);
 
-        return newSelection;
-      });
+  // Handle select all functionality for the rows currently shown
+  const handleSelectAll = useCallback(
+    (isSelected: boolean, visibleIds: string[]) => {
+      if (isSelected) {
+        handleSelectRows(visibleIds, true);
+      } else {
+        setMarks({});
+      }
     },
-    [files, getAllDescendantIds]
+    [handleSelectRows]
   );
 
-  // Handle select all functionality
-  const handleSelectAll = useCallback((isSelected: boolean, visibleRows: any[]) => {
-    const newSelection: Record<string, boolean> = {};
-
-    if (isSelected) {
-      visibleRows.forEach((row) => {
-        newSelection[row.original.id] = true;
-      });
-    }
-
-    setRowSelection(newSelection);
-  }, []);
-
   // Get selected files
   const selectedFiles = useMemo(() => {
     return files.filter((file) => rowSelection[file.id]);
   }, [files, rowSelection]);
 
-  // Get selected resource IDs
-  const selectedResourceIds = useMemo(() => {
-    return selectedFiles.map((file) => file.id);
-  }, [selectedFiles]);
+  // Minimal resource IDs covering the selection, exclusions included. It walks the tree store, which
+  // grows as folders load without changing marks, so it's read from the store and redone as it changes
+  const getSelectedResourceIds = useMemo(() => memoizePerTreeVersion(() => resolveSelectedResourceIds(marks)), [marks]);
+  const selectedResourceIds = useSyncExternalStore(subscribeTree, getSelectedResourceIds, getSelectedResourceIds);
+
+  // Resource IDs to submit: selected folders that never loaded are listed first (all the way down),
+  // since the backend doesn't index folders recursively and their subfolders must be sent too
+  const resolveResourceIds = useCallback(async () => {
+    const unloadedIds = getUnloadedSelectedFolderIds(marks);
+    if (unloadedIds.length > 0) {
+      await crawlDriveFolders(queryClient, unloadedIds);
+    }
+    return resolveSelectedResourceIds(marks);
+  }, [marks, queryClient]);
 
   return {
     rowSelection,
+    partiallySelectedIds,
+    isFileSelected,
     selectedFiles,
     selectedResourceIds,
+    resolveResourceIds,
     handleRowSelection,
+    handleSelectRows,
     handleSelectAll,
-    setRowSelection,
   };
-} 
\ No newline at end of file
+}
@@ -1,25 +1,45 @@
-import { useState, useCallback, useMemo } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
+import { isCancelledError, useQuery, useQueryClient } from "@tanstack/react-query";
 import { listResources } from "@/lib/api/connections";
 import { listKBResourcesSafe } from "@/lib/api/knowledgeBase";
-import { FileItem } from "@/lib/types/file";
-import { toast } from 'react-toastify';
+import { watchStatus } from "@/lib/api/statusPoller";
+import { getResourcePath, getTreeNode, isDescendantOf, recordFolderContents } from "@/lib/tree/fileTreeStore";
+import { FileErrorDetails, FileItem, FolderStatus } from "@/lib/types/file";
+import { pickErrorDetails } from "@/lib/utils/fileErrors";
+import { showIndexingErrorToast } from "@/components/file-picker/IndexingErrorToast";
 
 interface UseFileTreeProps {
   kbId?: string | null;
   statusMap?: Map<string, string>;
+  errorDetails?: Map<string, FileErrorDetails>;
+  indexedAtMap?: Map<string, string>;
+  onRetryFailed?: (fileIds: string[]) => void;
+}
+
+// Per-folder KB status, cached under ["kb-folder-status", kbId, folderId]
+type FolderStatusEntry = FolderStatus[string];
+
+function toFolderStatusMap(items: FileItem[] | null): Map<string, FolderStatusEntry> {
+  const statusMap = new Map<string, FolderStatusEntry>();
+  items?.forEach((resource) => {
+    statusMap.set(resource.id, { status: resource.status || "unknown", indexed_at: resource.indexed_at, ...pickErrorDetails(resource) });
+  });
+  return statusMap;
 }
 
 // Constants
 const STALE_TIME = 5 * 60 * 1000; // 5 minutes
-const POLL_INTERVAL = 1000; // 1 second for faster updates
 
-export function useFileTree({ kbId, statusMap }: UseFileTreeProps = {}) {
+export function useFileTree({ kbId, statusMap, errorDetails, indexedAtMap, onRetryFailed }: UseFileTreeProps = {}) {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
   const [loadingFolders, setLoadingFolders] = useState<Set<string>>(new Set());
   const [errorToastShown, setErrorToastShown] = useState<Set<string>>(new Set());
   const [refreshTrigger, setRefreshTrigger] = useState(0); // Force refresh trigger
   const queryClient = useQueryClient();
+  // Active status polls for expanded folders, keyed by folder id
+  const folderWatchers = useRef(new Map<string, () => void>());
+  // In-flight expands, keyed by folder id; aborting one cancels both its Drive listing and its KB status fetch
+  const expandControllers = useRef(new Map<string, AbortController>());
 
   // Fetch root files
   const {
@@ -29,16 +49,18 @@ export function useFileTree({ kbId, statusMap }: UseFileTreeProps = {}) {
     refetch,
   } = useQuery({
     queryKey: ["drive-files", "root"],
-    queryFn: () => listResources(),
+    queryFn: ({ signal }) => listResources(undefined, { signal }),
     staleTime: STALE_TIME,
   });
 
   // Fetch folder contents with caching
   const fetchFolderContents = useCallback(
-    async (folderId: string) => {
+    async (folderId: string, signal?: AbortSignal) => {
+      // The listing runs as a shared query with its own signal, so an abort here cancels that query
+      signal?.addEventListener("abort", () => queryClient.cancelQueries({ queryKey: ["drive-files", folderId] }), { once: true });
       const result = await queryClient.fetchQuery({
         queryKey: ["drive-files", folderId],
-        queryFn: () => listResources(folderId),
+        queryFn: ({ signal }) => listResources(folderId, { signal }),
         staleTime: STALE_TIME,
       });
       return result?.data || [];
@@ -48,115 +70,103 @@ export function useFileTree({ kbId, statusMap }: UseFileTreeProps = {}) {
 
   // Fetch KB status for a folder path
   const fetchKBStatusForFolder = useCallback(
-    async (folderPath: string) => {
-      if (!kbId) return new Map<string, string>();
+    async (folderPath: string, signal?: AbortSignal) => {
+      if (!kbId) return new Map<string, FolderStatusEntry>();
 
       try {
-        // Force fresh fetch
-        await queryClient.invalidateQueries({
-          queryKey: ["kb-file-status", kbId, folderPath],
-        });
-
-        const kbData = await listKBResourcesSafe(kbId, folderPath);
-        const statusMap = new Map<string, string>();
-
-        if (kbData?.data) {
-          kbData.data.forEach((resource: any) => {
-            statusMap.set(resource.id, resource.status || "unknown");
-          });
-        }
-
-        return statusMap;
+        const kbData = await listKBResourcesSafe(kbId, folderPath, { signal });
+        return toFolderStatusMap(kbData?.data ?? null);
       } catch (error) {
+        if (signal?.aborted) throw error;
         console.error("Failed to fetch KB status:", error);
-        return new Map<string, string>();
+        return new Map<string, FolderStatusEntry>();
       }
     },
-    [kbId, queryClient]
+    [kbId]
   );
 
-  // Extract folder path from file list
-  const getFolderPath = useCallback((files: FileItem[]) => {
-    if (!files.length) return "";
-
-    const firstFile = files[0];
-    const pathParts = firstFile.name.split("/");
-    pathParts.pop(); // Remove filename
-    return "/" + pathParts.join("/");
-  }, []);
-
-  // Update cached files with KB status
+  // Store KB status for a folder's children, keyed by the active KB so switching KBs never mixes statuses
   const updateCachedFilesWithStatus = useCallback(
-    (folderId: string, kbStatusMap: Map<string, string>) => {
-      const cacheKey = ["drive-files", folderId];
-      const cachedData = queryClient.getQueryData<{ data: FileItem[] }>(cacheKey);
+    (folderId: string, kbStatusMap: Map<string, FolderStatusEntry>) => {
+      const cachedData = queryClient.getQueryData<{ data: FileItem[] }>(["drive-files", folderId]);
 
-      if (!cachedData?.data) return { updatedFiles: [], hasPending: false, hasErrors: false };
+      if (!cachedData?.data) return { updatedFiles: [], hasPending: false, hasErrors: false, errorIds: [] };
 
+      const folderStatus: FolderStatus = Object.fromEntries(kbStatusMap);
       const updatedFiles = cachedData.data.map((file) => ({
         ...file,
-        status: (kbStatusMap.get(file.id) as FileItem["status"]) || file.status,
+        status: folderStatus[file.id]?.status,
       }));
 
       // IMPORTANT: Update the cache immediately so UI reflects changes
-      queryClient.setQueryData(cacheKey, { data: updatedFiles });
-      
+      queryClient.setQueryData(["kb-folder-status", kbId, folderId], folderStatus);
+
       // CRITICAL: Trigger a refresh to force UI update
       setRefreshTrigger(prev => prev + 1);
 
       const hasPending = updatedFiles.some((file) => file.type === "file" && file.status === "pending");
-      const hasErrors = updatedFiles.some((file) => file.type === "file" && file.status === "error");
+      const errorIds = updatedFiles.filter((file) => file.type === "file" && file.status === "error").map((file) => file.id);
+      const hasErrors = errorIds.length > 0;
 
       console.log(`Updated cache for folder ${folderId}: ${updatedFiles.length} files, hasPending=${hasPending}, hasErrors=${hasErrors}`);
 
-      return { updatedFiles, hasPending, hasErrors };
+      return { updatedFiles, hasPending, hasErrors, errorIds };
     },
-    [queryClient]
+    [queryClient, kbId]
   );
 
-  // Poll folder status for pending files
-  const pollFolderStatus = useCallback(
-    async (folderPath: string, folderId: string) => {
-      try {
-        console.log(`Polling folder status for: ${folderPath}`);
-        const freshStatus = await fetchKBStatusForFolder(folderPath);
-        
+  // Stop polling a folder and every folder nested under it
+  const stopWatchingFolder = useCallback((folderId: string) => {
+    folderWatchers.current.forEach((stop, watchedId) => {
+      if (watchedId === folderId || isDescendantOf(watchedId, folderId)) {
+        stop();
+        folderWatchers.current.delete(watchedId);
+      }
+    });
+  }, []);
+
+  const stopWatchingAllFolders = useCallback(() => {
+    folderWatchers.current.forEach((stop) => stop());
+    folderWatchers.current.clear();
+  }, []);
+
+  // Keep a folder's status fresh through the shared poller until nothing in it is pending
+  const watchFolderStatus = useCallback(
+    (folderPath: string, folderId: string) => {
+      if (!kbId) return;
+
+      console.log(`Polling folder status for: ${folderPath}`);
+      const stop = watchStatus(kbId, folderPath, (items) => {
+        const freshStatus = toFolderStatusMap(items);
+
         // Check if we have any files with status
-        const statusValues = Array.from(freshStatus.values());
+        const statusValues = Array.from(freshStatus.values()).map((entry) => entry.status);
         const pendingFiles = statusValues.filter(status => status === "pending");
         const pendingDeleteFiles = statusValues.filter(status => status === "pending_delete");
-        
+
         console.log(`Folder ${folderPath}: ${pendingFiles.length} pending, ${pendingDeleteFiles.length} pending_delete`);
 
         // ALWAYS update the cache with fresh status, even if still pending
-        const { hasErrors } = updateCachedFilesWithStatus(folderId, freshStatus);
+        const { hasErrors, errorIds } = updateCachedFilesWithStatus(folderId, freshStatus);
 
-        // Continue polling if there are still pending files
-        const stillPending = pendingFiles.length > 0 || pendingDeleteFiles.length > 0;
+        // Keep polling while there are still pending files
+        if (pendingFiles.length > 0 || pendingDeleteFiles.length > 0) return;
 
-        if (stillPending) {
-          // Continue polling
-          setTimeout(() => pollFolderStatus(folderPath, folderId), POLL_INTERVAL);
-        } else {
-          console.log(`Folder ${folderPath} polling complete. Has errors: ${hasErrors}`);
-          
-          // Show error toast if errors found and not already shown for this folder
-          if (hasErrors && !errorToastShown.has(folderId)) {
-            setErrorToastShown(prev => new Set(prev).add(folderId));
-            toast.error(
-              `Some files in this folder failed to index. The knowledge base may be corrupted. Please create a new knowledge base.`,
-              {
-                autoClose: 8000,
-                toastId: `folder-error-${folderId}`
-              }
-            );
-          }
+        console.log(`Folder ${folderPath} polling complete. Has errors: ${hasErrors}`);
+        stop();
+        folderWatchers.current.delete(folderId);
+
+        // Show error toast if errors found and not already shown for this folder
+        if (hasErrors && !errorToastShown.has(folderId)) {
+          setErrorToastShown(prev => new Set(prev).add(folderId));
+          showIndexingErrorToast(errorIds.length, `folder-error-${folderId}`, onRetryFailed && (() => onRetryFailed(errorIds)));
         }
-      } catch (error) {
-        console.error(`Error polling folder ${folderPath}:`, error);
-      }
+      });
+
+      folderWatchers.current.get(folderId)?.();
+      folderWatchers.current.set(folderId, stop);
     },
-    [fetchKBStatusForFolder, updateCachedFilesWithStatus, errorToastShown]
+    [kbId, updateCachedFilesWithStatus, errorToastShown, onRetryFailed]
   );
 
   // Toggle folder expansion
@@ -164,8 +174,16 @@ export function useFileTree({ kbId, statusMap }: UseFileTreeProps = {}) {
     async (folderId: string) => {
       const isExpanded = expandedFolders.has(folderId);
 
+      // Clicking a folder that is still loading cancels its in-flight requests
+      if (loadingFolders.has(folderId)) {
+        expandControllers.current.get(folderId)?.abort();
+        return;
+      }
+
       if (isExpanded) {
-        // Collapse folder
+        // Collapse folder - hidden folders don't need polling
+        stopWatchingFolder(folderId);
+
         setExpandedFolders((prev) => {
           const newSet = new Set(prev);
           newSet.delete(folderId);
@@ -175,46 +193,45 @@ export function useFileTree({ kbId, statusMap }: UseFileTreeProps = {}) {
       }
 
       // Expand folder
+      const controller = new AbortController();
+      expandControllers.current.set(folderId, controller);
       setLoadingFolders((prev) => new Set(prev).add(folderId));
 
       try {
         // Fetch Google Drive contents
-        const driveFiles = await fetchFolderContents(folderId);
+        const driveFiles = await fetchFolderContents(folderId, controller.signal);
 
         // Fetch and merge KB status if available
-        if (kbId && driveFiles.length > 0) {
-          const folderPath = getFolderPath(driveFiles);
+        const folderPath = getResourcePath(folderId);
+        if (kbId && folderPath && driveFiles.length > 0) {
           console.log(`Expanding folder: ${folderPath}`);
           
-          const kbStatusMap = await fetchKBStatusForFolder(folderPath);
+          const kbStatusMap = await fetchKBStatusForFolder(folderPath, controller.signal);
 
-          const { hasPending, hasErrors } = updateCachedFilesWithStatus(folderId, kbStatusMap);
+          const { hasPending, hasErrors, errorIds } = updateCachedFilesWithStatus(folderId, kbStatusMap);
 
           console.log(`Folder ${folderPath}: hasPending=${hasPending}, hasErrors=${hasErrors}`);
 
           // Show error toast immediately if errors found and not already shown
           if (hasErrors && !errorToastShown.has(folderId)) {
             setErrorToastShown(prev => new Set(prev).add(folderId));
-            toast.error(
-              `Some files in this folder failed to index. The knowledge base may be corrupted. Please create a new knowledge base.`,
-              {
-                autoClose: 8000,
-                toastId: `folder-error-${folderId}`
-              }
-            );
+            showIndexingErrorToast(errorIds.length, `folder-error-${folderId}`, onRetryFailed && (() => onRetryFailed(errorIds)));
           }
 
           // Start polling if there are pending files
           if (hasPending) {
             console.log(`Starting polling for folder: ${folderPath}`);
-            setTimeout(() => pollFolderStatus(folderPath, folderId), POLL_INTERVAL);
+            watchFolderStatus(folderPath, folderId);
           }
         }
 
         setExpandedFolders((prev) => new Set(prev).add(folderId));
       } catch (error) {
-        console.error("Failed to load folder contents:", error);
+        if (!controller.signal.aborted && !isCancelledError(error)) {
+          console.error("Failed to load folder contents:", error);
+        }
       } finally {
+        if (expandControllers.current.get(folderId) === controller) expandControllers.current.delete(folderId);
         setLoadingFolders((prev) => {
           const newSet = new Set(prev);
           newSet.delete(folderId);
@@ -222,12 +239,51 @@ export function useFileTree({ kbId, statusMap }: UseFileTreeProps = {}) {
         });
       }
     },
-    [expandedFolders, fetchFolderContents, kbId, getFolderPath, fetchKBStatusForFolder, updateCachedFilesWithStatus, pollFolderStatus, errorToastShown]
+    [expandedFolders, loadingFolders, fetchFolderContents, kbId, fetchKBStatusForFolder, updateCachedFilesWithStatus, watchFolderStatus, stopWatchingFolder, errorToastShown, onRetryFailed]
+  );
+
+  // Resume status polling for expanded folders holding any of these files (e.g. after a retry)
+  const refreshFolderStatuses = useCallback(
+    (fileIds: string[]) => {
+      const ids = new Set(fileIds);
+
+      expandedFolders.forEach((folderId) => {
+        const folderPath = getResourcePath(folderId);
+        if (!folderPath || !getTreeNode(folderId)?.childIds?.some((id) => ids.has(id))) return;
+
+        setErrorToastShown((prev) => {
+          const next = new Set(prev);
+          next.delete(folderId);
+          return next;
+        });
+        watchFolderStatus(folderPath, folderId);
+      });
+    },
+    [expandedFolders, watchFolderStatus]
+  );
+
+  // Expand every folder on the way to an item (e.g. a search result), outermost first
+  const revealItem = useCallback(
+    async (fileId: string) => {
+      const ancestorIds: string[] = [];
+      let parentId = getTreeNode(fileId)?.parentId;
+      while (parentId) {
+        ancestorIds.unshift(parentId);
+        parentId = getTreeNode(parentId)?.parentId;
+      }
+
+      for (const folderId of ancestorIds) {
+        if (!expandedFolders.has(folderId)) await toggleFolder(folderId);
+      }
+    },
+    [expandedFolders, toggleFolder]
   );
 
   // Build hierarchical file tree
   const buildFileTree = useCallback(
-    (files: FileItem[], level = 0, parentPath = ""): FileItem[] => {
+    (files: FileItem[], level = 0, parentId: string | null = null): FileItem[] => {
+      const folderStatus = parentId ? queryClient.getQueryData<FolderStatus>(["kb-folder-status", kbId, parentId]) : undefined;
+
       return files.map((file) => {
         const isExpanded = expandedFolders.has(file.id);
         const isLoading = loadingFolders.has(file.id);
@@ -237,23 +293,28 @@ export function useFileTree({ kbId, statusMap }: UseFileTreeProps = {}) {
           const folderData = queryClient.getQueryData<{ data: FileItem[] }>(["drive-files", file.id]);
 
           if (folderData?.data) {
-            const currentPath = parentPath ? `${parentPath}/${file.name.split("/").pop()}` : file.name.split("/").pop() || "";
-            children = buildFileTree(folderData.data, level + 1, currentPath);
+            children = buildFileTree(folderData.data, level + 1, file.id);
           }
         }
 
         // Apply KB status - root level uses statusMap, children use cached status
         let finalStatus: FileItem["status"];
+        let details: FileErrorDetails | undefined;
+        let indexedAt: string | undefined;
         
         if (level === 0) {
           // Root level: use statusMap if available, otherwise undefined (which will show as "-")
           const kbStatus = statusMap?.get(file.id) as FileItem["status"];
           finalStatus = kbStatus; // Don't fall back to file.status for root level
+          details = errorDetails?.get(file.id);
+          indexedAt = indexedAtMap?.get(file.id);
           
           console.log(`Root file ${file.id}: statusMap has ${kbStatus ? kbStatus : 'no status'}, final: ${finalStatus || 'undefined'}`);
         } else {
-          // Nested files: use cached status from folder expansion
-          finalStatus = file.status;
+          // Nested files: use cached status from folder expansion for the active KB
+          finalStatus = folderStatus?.[file.id]?.status;
+          details = folderStatus?.[file.id];
+          indexedAt = folderStatus?.[file.id]?.indexed_at;
         }
 
         return {
@@ -263,10 +324,12 @@ export function useFileTree({ kbId, statusMap }: UseFileTreeProps = {}) {
           children,
           level,
           status: finalStatus,
+          indexed_at: indexedAt,
+          ...(details && pickErrorDetails(details)),
         };
       });
     },
-    [expandedFolders, loadingFolders, queryClient, statusMap, refreshTrigger]
+    [expandedFolders, loadingFolders, queryClient, kbId, statusMap, errorDetails, indexedAtMap, refreshTrigger]
   );
 
   // Build file tree from root data
@@ -295,10 +358,64 @@ export function useFileTree({ kbId, statusMap }: UseFileTreeProps = {}) {
 
   // Collapse all folders - useful after deletion
   const collapseAllFolders = useCallback(() => {
+    stopWatchingAllFolders();
     setExpandedFolders(new Set());
     setLoadingFolders(new Set());
     setErrorToastShown(new Set()); // Reset error toast tracking
-  }, []);
+  }, [stopWatchingAllFolders]);
+
+  // Switching or clearing the active KB invalidates every expanded folder's status
+  useEffect(() => {
+    collapseAllFolders();
+  }, [kbId, collapseAllFolders]);
+
+  // Folder statuses can also be written from outside (pushed status events) - re-render on those
+  useEffect(() => {
+    return queryClient.getQueryCache().subscribe((event) => {
+      const [scope, eventKbId] = event.query.queryKey;
+      if (event.type === "updated" && scope === "kb-folder-status" && eventKbId === kbId) {
+        setRefreshTrigger((prev) => prev + 1);
+      }
+    });
+  }, [queryClient, kbId]);
+
+  // An invalidated folder status (the push channel lost events) is refetched directly: these entries
+  // have no query function, and the poller stays paused while the channel is live
+  useEffect(() => {
+    return queryClient.getQueryCache().subscribe((event) => {
+      const [scope, eventKbId, folderId] = event.query.queryKey;
+      if (event.type !== "updated" || event.action.type !== "invalidate" || scope !== "kb-folder-status" || eventKbId !== kbId) return;
+
+      const folderPath = typeof folderId === "string" ? getResourcePath(folderId) : undefined;
+      if (!folderPath) return;
+      fetchKBStatusForFolder(folderPath).then((freshStatus) => updateCachedFilesWithStatus(folderId as string, freshStatus));
+    });
+  }, [queryClient, kbId, fetchKBStatusForFolder, updateCachedFilesWithStatus]);
+
+  // Mirror every Drive listing into the normalized tree store as it loads (from any hook)
+  useEffect(() => {
+    const record = (folderId: string, listing: { data: FileItem[] } | undefined) => {
+      if (listing) recordFolderContents(folderId === "root" ? null : folderId, listing.data);
+    };
+
+    // Listings cached before this mounted, parents before children
+    const seed = (folderId: string) => {
+      const listing = queryClient.getQueryData<{ data: FileItem[] }>(["drive-files", folderId]);
+      record(folderId, listing);
+      listing?.data.filter((item) => item.type === "directory").forEach((item) => seed(item.id));
+    };
+    seed("root");
+
+    return queryClient.getQueryCache().subscribe((event) => {
+      const [scope, folderId] = event.query.queryKey;
+      if (event.type === "updated" && event.action.type === "success" && scope === "drive-files" && typeof folderId === "string") {
+        record(folderId, event.query.state.data as { data: FileItem[] } | undefined);
+      }
+    });
+  }, [queryClient]);
+
+  // Stop folder polls when the picker unmounts
+  useEffect(() => stopWatchingAllFolders, [stopWatchingAllFolders]);
 
   return {
     files: flatFiles,
@@ -306,7 +423,9 @@ export function useFileTree({ kbId, statusMap }: UseFileTreeProps = {}) {
     error,
     expandedFolders,
     toggleFolder,
+    revealItem,
     collapseAllFolders,
+    refreshFolderStatuses,
     refetch,
   };
 }
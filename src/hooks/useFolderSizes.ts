@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "react-toastify";
+import { crawlDriveFolders } from "@/lib/tree/crawlDrive";
+import { getTreeVersion, subscribeTree } from "@/lib/tree/fileTreeStore";
+import { getFolderTotals, getUnloadedFolderIds } from "@/lib/tree/folderSizes";
+
+// Folder totals that fill in as folders load (expanded, searched or crawled here), plus a way to
+// walk the rest of a subtree on demand so its total becomes exact
+export function useFolderSizes() {
+  const queryClient = useQueryClient();
+  // Re-render whenever the tree store changes, so rows re-read their totals from it
+  useSyncExternalStore(subscribeTree, getTreeVersion, getTreeVersion);
+  const [calculatingIds, setCalculatingIds] = useState<Set<string>>(new Set());
+  const controllers = useRef(new Map<string, AbortController>());
+
+  // Abort running calculations when the picker unmounts
+  useEffect(() => {
+    const running = controllers.current;
+    return () => running.forEach((controller) => controller.abort());
+  }, []);
+
+  const calculateFolderSizes = useCallback(
+    async (folderIds: string[]) => {
+      const pending = folderIds.flatMap(getUnloadedFolderIds).filter((id) => !controllers.current.has(id));
+      if (pending.length === 0) return;
+
+      const controller = new AbortController();
+      pending.forEach((id) => controllers.current.set(id, controller));
+      setCalculatingIds((prev) => new Set([...prev, ...folderIds]));
+
+      try {
+        await crawlDriveFolders(queryClient, pending, { signal: controller.signal });
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Failed to calculate folder sizes:", error);
+          toast.error("Couldn't calculate folder size. Please try again.");
+        }
+      } finally {
+        pending.forEach((id) => controllers.current.delete(id));
+        setCalculatingIds((prev) => {
+          const next = new Set(prev);
+          folderIds.forEach((id) => next.delete(id));
+          return next;
+        });
+      }
+    },
+    [queryClient]
+  );
+
+  const isCalculating = useCallback((folderId: string) => calculatingIds.has(folderId), [calculatingIds]);
+
+  return {
+    getFolderTotals,
+    calculateFolderSizes,
+    isCalculating,
+    isCalculatingAny: calculatingIds.size > 0,
+  };
+}
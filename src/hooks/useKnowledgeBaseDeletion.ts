@@ -4,6 +4,7 @@ import { deleteKBResource } from "@/lib/api/knowledgeBase";
 import { FileItem } from "@/lib/types/file";
 import { listResources } from "@/lib/api/connections";
 import { listKBResources } from "@/lib/api/knowledgeBase";
+import { getDescendantIds, getTreeNode } from "@/lib/tree/fileTreeStore";
 
 export function useKnowledgeBaseDeletion(kbId: string | null) {
   const [isDeleting, setIsDeleting] = useState(false);
@@ -19,14 +20,9 @@ export function useKnowledgeBaseDeletion(kbId: string | null) {
         try {
           setDeletingFiles((prev) => new Set(prev).add(file.id));
 
-          const response = await deleteKBResource(kbId!, file.name);
-          
-          // Check if deletion was successful based on response format
-          const isSuccess = response && 
-            (response.success === true || 
-             (typeof response === 'object' && response.message === "Resource deleted"));
+          const response = await deleteKBResource(kbId!, getTreeNode(file.id)?.path ?? file.name);
 
-          if (isSuccess) {
+          if (response.success) {
             console.log(`Successfully deleted: ${file.name}`);
             results.push({ file, success: true });
           } else {
@@ -55,7 +51,8 @@ export function useKnowledgeBaseDeletion(kbId: string | null) {
 
       // STEP 1: Immediately invalidate and remove all KB-related queries
       queryClient.removeQueries({ queryKey: ["kb-resources"] });
-      queryClient.removeQueries({ queryKey: ["kb-file-status"] });
+      queryClient.removeQueries({ queryKey: ["kb-folder-status"] });
+      queryClient.invalidateQueries({ queryKey: ["kb-summary"] });
 
       // STEP 2: Remove all cached drive files 
       queryClient.removeQueries({ queryKey: ["drive-files"] });
@@ -68,7 +65,7 @@ export function useKnowledgeBaseDeletion(kbId: string | null) {
         console.log("Refetching KB resources after deletion...");
         await queryClient.fetchQuery({
           queryKey: ["kb-resources", kbId],
-          queryFn: () => listKBResources(kbId),
+          queryFn: ({ signal }) => listKBResources(kbId, "/", { signal }),
           staleTime: 0, // Force fresh fetch
         });
       }
@@ -77,7 +74,7 @@ export function useKnowledgeBaseDeletion(kbId: string | null) {
       console.log("Refetching root drive files...");
       await queryClient.fetchQuery({
         queryKey: ["drive-files", "root"],
-        queryFn: () => listResources(),
+        queryFn: ({ signal }) => listResources(undefined, { signal }),
         staleTime: 0, // Force fresh fetch
       });
 
@@ -125,12 +122,10 @@ export function useKnowledgeBaseDeletion(kbId: string | null) {
           // Direct file selection - can delete if indexed
           filesToDelete.push(item);
         } else if (item.type === "directory") {
-          // Folder selection - find all indexed files inside
-          const indexedFilesInFolder = allFiles.filter((file) => 
-            file.type === "file" && 
-            file.status === "indexed" && 
-            file.name.startsWith(item.name + "/")
-          );
+          // Folder selection - find all indexed files loaded inside
+          const indexedFilesInFolder = getDescendantIds(item.id)
+            .map((descendantId) => fileMap.get(descendantId))
+            .filter((file): file is FileItem => file?.type === "file" && file.status === "indexed");
           filesToDelete.push(...indexedFilesInFolder);
         }
       });
@@ -169,11 +164,11 @@ export function useKnowledgeBaseDeletion(kbId: string | null) {
   const canDeleteFolder = useCallback((folder: FileItem, allFiles: FileItem[]) => {
     if (folder.type !== "directory") return false;
 
-    return allFiles.some((file) => 
-      file.type === "file" && 
-      file.status === "indexed" && 
-      file.name.startsWith(folder.name + "/")
-    );
+    const fileMap = new Map(allFiles.map((file) => [file.id, file]));
+    return getDescendantIds(folder.id).some((id) => {
+      const file = fileMap.get(id);
+      return file?.type === "file" && file.status === "indexed";
+    });
   }, []);
 
   return {
@@ -0,0 +1,65 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "react-toastify";
+import { deleteKnowledgeBase, listKnowledgeBases, updateKnowledgeBase } from "@/lib/api/knowledgeBase";
+import { getKBRegistry, removeKBFromRegistry, upsertKBInRegistry } from "@/lib/utils/localStorage";
+import type { KnowledgeBase } from "@/lib/types/knowledgeBase";
+
+// All KBs the user can switch between: the backend list when available,
+// falling back to the local registry (e.g. when the list endpoint fails)
+export function useKnowledgeBaseList() {
+  const queryClient = useQueryClient();
+
+  const {
+    data: remoteKBs,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ["knowledge-bases"],
+    queryFn: ({ signal }) => listKnowledgeBases({ signal }),
+  });
+
+  const knowledgeBases = useMemo<KnowledgeBase[]>(() => {
+    const list = remoteKBs ?? getKBRegistry().map((kb) => ({ ...kb, is_empty: false }));
+    return [...list].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }, [remoteKBs]);
+
+  const renameMutation = useMutation({
+    mutationFn: ({ kbId, name }: { kbId: string; name: string }) => updateKnowledgeBase(kbId, { name }),
+    onSuccess: (kb) => {
+      upsertKBInRegistry({ id: kb.id, name: kb.name, created_at: kb.created_at });
+      queryClient.invalidateQueries({ queryKey: ["knowledge-bases"] });
+    },
+    onError: (error) => {
+      console.error("Failed to rename KB:", error);
+      toast.error("Could not rename the knowledge base. Please try again.");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (kbId: string) => deleteKnowledgeBase(kbId),
+    onSuccess: (_, kbId) => {
+      removeKBFromRegistry(kbId);
+      queryClient.removeQueries({ queryKey: ["kb-resources", kbId] });
+      queryClient.removeQueries({ queryKey: ["kb-folder-status", kbId] });
+      queryClient.removeQueries({ queryKey: ["kb-summary", kbId] });
+      queryClient.invalidateQueries({ queryKey: ["knowledge-bases"] });
+    },
+    onError: (error) => {
+      console.error("Failed to delete KB:", error);
+      toast.error("Could not delete the knowledge base. Please try again.");
+    },
+  });
+
+  return {
+    knowledgeBases,
+    isLoading,
+    error,
+    refetch,
+    renameKB: (kbId: string, name: string, options?: { onError?: () => void }) => renameMutation.mutate({ kbId, name }, options),
+    isRenaming: renameMutation.isPending,
+    deleteKB: (kbId: string, options?: { onSuccess?: () => void }) => deleteMutation.mutate(kbId, options),
+    isDeletingKB: deleteMutation.isPending,
+  };
+}
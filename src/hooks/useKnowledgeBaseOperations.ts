@@ -1,14 +1,18 @@
-import { useState, useCallback } from "react";
-import { useMutation } from "@tanstack/react-query";
-import { createKnowledgeBase, syncKnowledgeBase } from "@/lib/api/knowledgeBase";
-import { saveKBToStorage, getKBFromStorage, clearKBFromStorage } from "@/lib/utils/localStorage";
-import { deduplicateResourceIds } from "@/lib/utils/resourceDeduplication";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "react-toastify";
+import { createKnowledgeBase, getKnowledgeBase, retryKBResources, syncKnowledgeBase, updateKnowledgeBase } from "@/lib/api/knowledgeBase";
+import { saveKBToStorage, getKBFromStorage, setActiveKBId } from "@/lib/utils/localStorage";
+import { computeAddedResourceIds, deduplicateResourceIds } from "@/lib/utils/resourceDeduplication";
 import { useKnowledgeBaseStatus } from "./useKnowledgeBaseStatus";
+import { useKnowledgeBaseSummary } from "./useKnowledgeBaseSummary";
 import { useKnowledgeBaseDeletion } from "./useKnowledgeBaseDeletion";
-import type { KnowledgeBase } from "@/lib/types/knowledgeBase";
+import { useKnowledgeBaseList } from "./useKnowledgeBaseList";
+import type { CreateKBDetails, KnowledgeBase } from "@/lib/types/knowledgeBase";
 import type { FileItem } from "@/lib/types/file";
 
 export function useKnowledgeBaseOperations() {
+  const queryClient = useQueryClient();
   const [currentKB, setCurrentKB] = useState<KnowledgeBase | null>(() => {
     // Initialize from localStorage on mount
     const stored = getKBFromStorage();
@@ -16,32 +20,62 @@ export function useKnowledgeBaseOperations() {
   });
 
   const [isCreating, setIsCreating] = useState(false);
+  // How many times each file's indexing was retried in this session
+  const [retryCounts, setRetryCounts] = useState<Map<string, number>>(new Map());
   const hasKB = currentKB !== null;
 
+  // Retrying needs the status hook's restartPolling, so the status hook calls it through a ref
+  // to get a callback that keeps its identity across renders
+  const retryFailedFilesRef = useRef<(fileIds: string[]) => void>(undefined);
+  const onRetryFailed = useCallback((fileIds: string[]) => retryFailedFilesRef.current?.(fileIds), []);
+
+  // Whole-KB progress; it sees every file, so it also decides whether indexing has stalled
+  const {
+    summary,
+    folderRollups,
+    isLoading: isLoadingSummary,
+    isStalled,
+    resumeChecking: resumeSummaryChecking,
+  } = useKnowledgeBaseSummary({ kbId: currentKB?.id || null, enabled: hasKB });
+
   // Poll KB status after creation - enable polling when we have a KB
   const {
     statusMap,
+    errorDetails,
+    indexedAtMap,
     statusCounts,
     allFilesSettled,
     isLoading: isPolling,
+    restartPolling,
+    resumeChecking: resumeStatusChecking,
     shouldPoll,
   } = useKnowledgeBaseStatus({
     kbId: currentKB?.id || null,
     enabled: hasKB, // Always enable polling when we have a KB
+    onRetryFailed,
+    isStalled,
   });
 
+  // "Resume checking": back to fast polling for the root and every unsettled folder
+  const resumeChecking = useCallback(() => {
+    resumeSummaryChecking();
+    resumeStatusChecking();
+  }, [resumeSummaryChecking, resumeStatusChecking]);
+
+  // All KBs the user can switch between
+  const { knowledgeBases, isLoading: isLoadingKBs, renameKB: renameKBRequest, isRenaming, deleteKB: deleteKBRequest, isDeletingKB } = useKnowledgeBaseList();
+
   // Handle file deletion
   const { isDeleting, deleteSelectedFiles, isFileDeleting, canDeleteFile, canDeleteFolder } = useKnowledgeBaseDeletion(currentKB?.id || null);
 
   // Create KB mutation
   const createKBMutation = useMutation({
-    mutationFn: async ({ resourceIds, files }: { resourceIds: string[]; files: FileItem[] }) => {
+    mutationFn: async ({ resourceIds, details }: { resourceIds: string[]; details: CreateKBDetails }) => {
       // Deduplicate resource IDs before sending to backend
-      const deduplicatedIds = deduplicateResourceIds(resourceIds, files);
+      const deduplicatedIds = deduplicateResourceIds(resourceIds);
 
       const kbData = {
-        name: `Knowledge Base ${new Date().toLocaleString()}`,
-        description: "Created from Google Drive files",
+        ...details,
         resource_ids: deduplicatedIds,
       };
 
@@ -66,18 +100,21 @@ export function useKnowledgeBaseOperations() {
 
       setCurrentKB(kb);
       setIsCreating(false);
+      queryClient.invalidateQueries({ queryKey: ["kb-summary", kb.id] });
+      queryClient.invalidateQueries({ queryKey: ["knowledge-bases"] });
       
       // Polling will automatically start due to the useKnowledgeBaseStatus hook
       console.log("Polling should start automatically for KB:", kb.id);
     },
     onError: (error) => {
       console.error("Failed to create KB:", error);
+      toast.error("Could not create the knowledge base. Check its name and settings and try again.");
       setIsCreating(false);
     },
   });
 
   const createKnowledgeBaseWithFiles = useCallback(
-    (resourceIds: string[], files: FileItem[]) => {
+    (resourceIds: string[], details: CreateKBDetails) => {
       if (resourceIds.length === 0) {
         console.warn("No files selected for KB creation");
         return;
@@ -85,28 +122,177 @@ export function useKnowledgeBaseOperations() {
 
       console.log(`Creating KB with ${resourceIds.length} resources`);
       setIsCreating(true);
-      createKBMutation.mutate({ resourceIds, files });
+      createKBMutation.mutate({ resourceIds, details });
     },
     [createKBMutation]
   );
 
+  // Add more Drive resources to the active KB - only the delta is submitted and synced,
+  // so content that is already indexed is left alone
+  const addResourcesMutation = useMutation({
+    mutationFn: async ({ kbId, resourceIds, files }: { kbId: string; resourceIds: string[]; files: FileItem[] }) => {
+      const kb = await getKnowledgeBase(kbId);
+      const currentIds = kb.resource_ids ?? [];
+      const addedIds = computeAddedResourceIds(resourceIds, files, currentIds);
+
+      if (addedIds.length === 0) {
+        return { kb, addedIds };
+      }
+
+      console.log(`Adding ${addedIds.length} resources to KB:`, kbId);
+      const updated = await updateKnowledgeBase(kbId, { resource_ids: [...currentIds, ...addedIds] });
+      await syncKnowledgeBase(kbId);
+
+      return { kb: updated, addedIds };
+    },
+    onSuccess: ({ kb, addedIds }) => {
+      if (addedIds.length === 0) {
+        toast.info("Everything selected is already in this knowledge base.");
+        return;
+      }
+
+      setCurrentKB((prev) => (prev?.id === kb.id ? { ...prev, ...kb } : prev));
+      queryClient.invalidateQueries({ queryKey: ["kb-resources", kb.id] });
+      queryClient.invalidateQueries({ queryKey: ["kb-summary", kb.id] });
+      queryClient.invalidateQueries({ queryKey: ["knowledge-bases"] });
+      restartPolling(addedIds);
+      toast.success(`Added ${addedIds.length} item(s) to "${kb.name}". Indexing started.`);
+    },
+    onError: (error) => {
+      console.error("Failed to add resources to KB:", error);
+      toast.error("Failed to add files to the knowledge base. Please try again.");
+    },
+  });
+
+  const addResourcesToKB = useCallback(
+    (resourceIds: string[], files: FileItem[]) => {
+      if (!currentKB || resourceIds.length === 0) return;
+      addResourcesMutation.mutate({ kbId: currentKB.id, resourceIds, files });
+    },
+    [addResourcesMutation, currentKB]
+  );
+
+  // Re-submit files whose indexing failed; the rest of the KB is left untouched
+  const retryMutation = useMutation({
+    mutationFn: ({ kbId, fileIds }: { kbId: string; fileIds: string[] }) => retryKBResources(kbId, fileIds),
+    onSuccess: (_, { kbId, fileIds }) => {
+      setRetryCounts((prev) => {
+        const next = new Map(prev);
+        fileIds.forEach((id) => next.set(id, (next.get(id) ?? 0) + 1));
+        return next;
+      });
+      queryClient.invalidateQueries({ queryKey: ["kb-resources", kbId] });
+      queryClient.invalidateQueries({ queryKey: ["kb-summary", kbId] });
+
+      // Root-level files are tracked by the KB status poll; nested ones by their folder's poll
+      const rootIds = fileIds.filter((id) => statusMap.has(id));
+      if (rootIds.length > 0) restartPolling(rootIds);
+
+      toast.info(`Retrying ${fileIds.length} file(s)...`);
+    },
+    onError: (error) => {
+      console.error("Failed to retry indexing:", error);
+      toast.error("Could not retry indexing. Please try again.");
+    },
+  });
+
+  const { mutate: retry } = retryMutation;
+  const currentKBId = currentKB?.id;
+  const retryFailedFiles = useCallback(
+    (fileIds: string[], options?: { onSuccess?: () => void }) => {
+      if (!currentKBId || fileIds.length === 0) return;
+      retry({ kbId: currentKBId, fileIds }, options);
+    },
+    [retry, currentKBId]
+  );
+
+  useEffect(() => {
+    retryFailedFilesRef.current = retryFailedFiles;
+  }, [retryFailedFiles]);
+
+  const isFileRetrying = useCallback((fileId: string) => retryMutation.isPending && !!retryMutation.variables?.fileIds.includes(fileId), [retryMutation]);
+
+  const getRetryCount = useCallback((fileId: string) => retryCounts.get(fileId) ?? 0, [retryCounts]);
+
+  // Retry counts belong to the KB they were made in
+  useEffect(() => {
+    setRetryCounts(new Map());
+  }, [currentKB?.id]);
+
+  // Leave the active KB so the picker switches back to creation mode
   const createNewKB = useCallback(() => {
-    console.log("Creating new KB - clearing storage and reloading");
-    // Clear everything and refresh page
-    clearKBFromStorage();
-    window.location.reload();
+    setActiveKBId(null);
+    setCurrentKB(null);
   }, []);
 
+  // Make another KB active - status polling and the file tree re-key on the new id
+  const switchKB = useCallback(
+    (kbId: string) => {
+      const kb = knowledgeBases.find((entry) => entry.id === kbId);
+      if (!kb) return;
+
+      saveKBToStorage({ id: kb.id, name: kb.name, created_at: kb.created_at });
+      setCurrentKB(kb);
+    },
+    [knowledgeBases]
+  );
+
+  // Shown right away; put back if the backend rejects it
+  const renameKB = useCallback(
+    (kbId: string, name: string) => {
+      const previousName = knowledgeBases.find((kb) => kb.id === kbId)?.name;
+      renameKBRequest(kbId, name, {
+        onError: () => {
+          if (previousName === undefined) return;
+          setCurrentKB((prev) => (prev?.id === kbId && prev.name === name ? { ...prev, name: previousName } : prev));
+        },
+      });
+      setCurrentKB((prev) => (prev?.id === kbId ? { ...prev, name } : prev));
+    },
+    [renameKBRequest, knowledgeBases]
+  );
+
+  const deleteKB = useCallback(
+    (kbId: string) => {
+      deleteKBRequest(kbId, {
+        onSuccess: () => setCurrentKB((prev) => (prev?.id === kbId ? null : prev)),
+      });
+    },
+    [deleteKBRequest]
+  );
+
   return {
     currentKB,
     hasKB,
     isCreating,
     createKnowledgeBaseWithFiles,
+    addResourcesToKB,
+    isAddingResources: addResourcesMutation.isPending,
     createNewKB,
+    // Multiple KB management
+    knowledgeBases,
+    isLoadingKBs,
+    switchKB,
+    renameKB,
+    isRenaming,
+    deleteKB,
+    isDeletingKB,
     statusMap,
+    errorDetails,
+    indexedAtMap,
     statusCounts,
     allFilesSettled,
     isPolling,
+    summary,
+    folderRollups,
+    isLoadingSummary,
+    isStalled,
+    resumeChecking,
+    // Retrying failed indexing
+    retryFailedFiles,
+    isRetrying: retryMutation.isPending,
+    isFileRetrying,
+    getRetryCount,
     shouldPoll, // Expose for debugging
     // Deletion functions
     isDeleting,
@@ -1,24 +1,33 @@
-import { useQuery } from "@tanstack/react-query";
-import { useEffect, useState, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect, useState, useMemo } from "react";
 import { listKBResources } from "@/lib/api/knowledgeBase";
-import { FileItem } from "@/lib/types/file";
-import { toast } from 'react-toastify';
+import { watchStatus } from "@/lib/api/statusPoller";
+import { useStatusEvents } from "./useStatusEvents";
+import { FileErrorDetails } from "@/lib/types/file";
+import { getTreeNode } from "@/lib/tree/fileTreeStore";
+import { pickErrorDetails } from "@/lib/utils/fileErrors";
+import { showIndexingErrorToast } from "@/components/file-picker/IndexingErrorToast";
 
 interface UseKnowledgeBaseStatusProps {
   kbId: string | null;
   enabled?: boolean;
+  onRetryFailed?: (fileIds: string[]) => void;
+  isStalled?: boolean; // the whole KB made no progress for a while (see useKnowledgeBaseSummary): poll rarely
 }
 
 // Constants
-const POLL_INTERVAL = 1000; // 1 second for faster updates
-const MAX_POLL_DURATION = 2 * 60 * 1000; // 2 minutes
+const STALLED_CHECK_INTERVAL = 60 * 1000; // background checks while stalled
 
-export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBaseStatusProps) {
+export function useKnowledgeBaseStatus({ kbId, enabled = true, onRetryFailed, isStalled = false }: UseKnowledgeBaseStatusProps) {
   const [shouldPoll, setShouldPoll] = useState(true);
-  const [pollingStartTime] = useState(Date.now());
+  const [pollingStartTime, setPollingStartTime] = useState(Date.now());
   const [hasShownErrorToast, setHasShownErrorToast] = useState(false);
+  // When set, only these resources decide whether polling continues (e.g. items just added to the KB)
+  const [watchedIds, setWatchedIds] = useState<Set<string> | null>(null);
 
-  // Poll KB resources
+  const queryClient = useQueryClient();
+
+  // Initial load of KB resources; updates while indexing come from the shared status poller
   const {
     data: kbResources,
     isLoading,
@@ -26,13 +35,37 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
     refetch,
   } = useQuery({
     queryKey: ["kb-resources", kbId],
-    queryFn: () => listKBResources(kbId!),
-    enabled: enabled && !!kbId && shouldPoll,
-    refetchInterval: shouldPoll ? POLL_INTERVAL : false,
-    refetchIntervalInBackground: true,
+    queryFn: ({ signal }) => listKBResources(kbId!, "/", { signal }),
+    enabled: enabled && !!kbId,
     staleTime: 0, // Always consider data stale for polling
   });
 
+  // Pushed transitions land in the same cache; polling below pauses while the channel is live
+  useStatusEvents(kbId, enabled);
+
+  // Poll the KB root while anything is unsettled; a new polling window restarts the backoff
+  useEffect(() => {
+    if (!enabled || !kbId || !shouldPoll) return;
+
+    const options = isStalled ? { intervalMs: STALLED_CHECK_INTERVAL } : undefined;
+    return watchStatus(
+      kbId,
+      "/",
+      (items) => {
+        if (items) queryClient.setQueryData(["kb-resources", kbId], { data: items });
+      },
+      options
+    );
+  }, [enabled, kbId, shouldPoll, isStalled, pollingStartTime, queryClient]);
+
+  // Only Drive-root items appear in the "/" listing polled here; nested ones settle through their
+  // folder and summary watchers, so they must not hold this poll open
+  const watchedRootIds = useMemo(() => {
+    if (!watchedIds) return null;
+    const rootIds = [...watchedIds].filter((id) => getTreeNode(id)?.parentId === null);
+    return rootIds.length > 0 ? new Set(rootIds) : null;
+  }, [watchedIds]);
+
   // Determine if polling should continue
   useEffect(() => {
     if (!enabled || !kbId) return;
@@ -42,11 +75,9 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
 
     const resources = kbResources.data;
 
-    // Check polling timeout first
-    const pollingDuration = Date.now() - pollingStartTime;
-    if (pollingDuration > MAX_POLL_DURATION) {
-      console.log("Polling timeout reached, stopping polling");
-      setShouldPoll(false);
+    // Newly added items may take a moment to show up after sync - keep polling until they do
+    if (watchedRootIds && !resources.some((item) => watchedRootIds.has(item.id))) {
+      console.log("Waiting for added resources to appear in KB...");
       return;
     }
 
@@ -59,7 +90,7 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
     }
 
     // Filter only files (directories are always "unknown")
-    const files = resources.filter((item) => item.type === "file");
+    const files = resources.filter((item) => item.type === "file" && (!watchedRootIds || watchedRootIds.has(item.id)));
 
     // If no files in KB, stop polling
     if (files.length === 0) {
@@ -79,13 +110,8 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
     // Show error toast if not already shown
     if (errorFiles.length > 0 && !hasShownErrorToast) {
       setHasShownErrorToast(true);
-      toast.error(
-        `Failed to index ${errorFiles.length} file(s). The knowledge base may be corrupted. Please create a new knowledge base.`,
-        {
-          autoClose: 8000,
-          toastId: 'kb-error-toast' // Prevent duplicate toasts
-        }
-      );
+      const failedIds = errorFiles.map((file) => file.id);
+      showIndexingErrorToast(errorFiles.length, "kb-error-toast", onRetryFailed && (() => onRetryFailed(failedIds)));
     }
 
     // Continue polling if there are any unsettled files
@@ -99,16 +125,33 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
 
     // Continue polling
     console.log("Files still pending, continuing polling...");
-  }, [kbResources, pollingStartTime, hasShownErrorToast, enabled, kbId]);
+  }, [kbResources, hasShownErrorToast, enabled, kbId, watchedRootIds, onRetryFailed]);
 
-  // Reset polling when KB changes
+  // Reset polling when KB changes (including a freshly created one) so its window starts now
   useEffect(() => {
     if (kbId) {
       setShouldPoll(true);
+      setPollingStartTime(Date.now());
       setHasShownErrorToast(false);
+      setWatchedIds(null);
     }
   }, [kbId]);
 
+  // Start a fresh polling window that only waits on the given resources
+  const restartPolling = useCallback((resourceIds: string[]) => {
+    setWatchedIds(new Set(resourceIds));
+    setPollingStartTime(Date.now());
+    setHasShownErrorToast(false);
+    setShouldPoll(true);
+  }, []);
+
+  // "Resume checking": back to fast polling for everything in the KB
+  const resumeChecking = useCallback(() => {
+    setWatchedIds(null);
+    setPollingStartTime(Date.now());
+    setShouldPoll(true);
+  }, []);
+
   // Build status map for quick lookups
   // IMPORTANT: Only include files that are actually in the KB
   // Files not in this map will fall back to their default status (which should be "-" for deleted files)
@@ -131,6 +174,28 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
     return map;
   }, [kbResources?.data]);
 
+  // Why each failed root-level file failed, as reported by the backend
+  const errorDetails = useMemo(() => {
+    const map = new Map<string, FileErrorDetails>();
+    kbResources?.data?.forEach((resource) => {
+      if (resource.status === "error") {
+        map.set(resource.id, pickErrorDetails(resource));
+      }
+    });
+    return map;
+  }, [kbResources?.data]);
+
+  // When each root-level resource finished indexing
+  const indexedAtMap = useMemo(() => {
+    const map = new Map<string, string>();
+    kbResources?.data?.forEach((resource) => {
+      if (resource.indexed_at) {
+        map.set(resource.id, resource.indexed_at);
+      }
+    });
+    return map;
+  }, [kbResources?.data]);
+
   // Calculate if all files are settled (including error status)
   const allFilesSettled = useMemo(() => {
     if (!kbResources?.data) return false;
@@ -168,11 +233,15 @@ export function useKnowledgeBaseStatus({ kbId, enabled = true }: UseKnowledgeBas
   return {
     kbResources: kbResources?.data || [],
     statusMap,
+    errorDetails,
+    indexedAtMap,
     statusCounts,
     allFilesSettled,
     isLoading,
     error,
     refetch,
+    restartPolling,
+    resumeChecking,
     shouldPoll, // Expose for debugging
   };
 }
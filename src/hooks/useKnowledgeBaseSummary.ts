@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { listAllKBResources } from "@/lib/api/knowledgeBase";
+import { getPollInterval, watchStatus } from "@/lib/api/statusPoller";
+import { computeFolderRollups } from "@/lib/utils/folderRollup";
+import { FileItem, FileStatus } from "@/lib/types/file";
+
+interface UseKnowledgeBaseSummaryProps {
+  kbId: string | null;
+  enabled?: boolean;
+}
+
+export type KBListings = Record<string, FileItem[]>;
+
+export interface KBSummary {
+  total: number;
+  indexed: number;
+  pending: number;
+  pending_delete: number;
+  error: number;
+  indexedBytes: number;
+  progress: number; // 0-1, share of files that finished (indexed or failed)
+  throughputPerMinute: number | null;
+  etaMs: number | null;
+}
+
+// Constants
+const STALL_TIMEOUT = 5 * 60 * 1000; // unsettled this long with no file leaving "pending" = stalled
+const THROUGHPUT_WINDOW = 2 * 60 * 1000; // completions older than this don't count towards the rate
+const STALLED_CHECK_INTERVAL = 60 * 1000; // background checks while stalled
+const CLOCK_INTERVAL = 10 * 1000; // how often throughput and ETA are re-evaluated
+const REWALK_WINDOW = 5 * 60 * 1000; // re-walk on the fast schedule this long, then at the background rate
+
+function isUnsettled(item: FileItem): boolean {
+  return item.type === "file" && (item.status === "pending" || item.status === "pending_delete");
+}
+
+// Right after a sync the backend may list nothing, or folders it can't list yet: walk again until
+// some file shows up and every folder that appears has been walked
+function needsRewalk(listings: KBListings): boolean {
+  const items = Object.values(listings).flat();
+  const hasFiles = items.some((item) => item.type === "file");
+  const hasMissingFolders = items.some((item) => item.type === "directory" && !(`/${item.name}` in listings));
+  return !hasFiles || hasMissingFolders;
+}
+
+// Whole-KB indexing progress: walks every KB folder once, then keeps the unsettled ones fresh
+// through the shared status poller (pushed events update the same cache). Until the walk finds
+// the KB's content it's repeated with backoff. Also decides whether the KB as a whole has stalled,
+// since only these listings cover files in folders that were never expanded.
+export function useKnowledgeBaseSummary({ kbId, enabled = true }: UseKnowledgeBaseSummaryProps) {
+  const queryClient = useQueryClient();
+  const walkStartedAt = useRef(Date.now());
+  // Last time a file left "pending", or new work was queued
+  const [lastProgressAt, setLastProgressAt] = useState(Date.now());
+  // No progress within STALL_TIMEOUT - keep checking, but rarely
+  const [hasStalled, setHasStalled] = useState(false);
+
+  useEffect(() => {
+    walkStartedAt.current = Date.now();
+  }, [kbId]);
+
+  const { data: listings, isLoading } = useQuery({
+    queryKey: ["kb-summary", kbId],
+    queryFn: ({ signal }) => listAllKBResources(kbId!, { signal }),
+    enabled: enabled && !!kbId,
+    refetchInterval: (query) => {
+      if (!query.state.data) return false;
+      // Backoff counts from the last walk that found everything (or from the KB switch)
+      if (!needsRewalk(query.state.data)) {
+        walkStartedAt.current = Date.now();
+        return false;
+      }
+      const elapsed = Date.now() - walkStartedAt.current;
+      return hasStalled || elapsed >= REWALK_WINDOW ? STALLED_CHECK_INTERVAL : getPollInterval(elapsed);
+    },
+  });
+
+  const files = useMemo(() => Object.values(listings ?? {}).flatMap((items) => items.filter((item) => item.type === "file")), [listings]);
+  const hasUnsettledFiles = useMemo(() => files.some(isUnsettled), [files]);
+  const isStalled = hasStalled && hasUnsettledFiles;
+
+  // Only folders with something in flight need polling; joined into a string so updates that
+  // don't change the set keep their backoff
+  const unsettledPaths = useMemo(
+    () =>
+      Object.entries(listings ?? {})
+        .filter(([, items]) => items.some(isUnsettled))
+        .map(([path]) => path)
+        .sort()
+        .join("\n"),
+    [listings]
+  );
+
+  useEffect(() => {
+    if (!kbId || !unsettledPaths) return;
+
+    const options = isStalled ? { intervalMs: STALLED_CHECK_INTERVAL } : undefined;
+    const stops = unsettledPaths.split("\n").map((path) =>
+      watchStatus(kbId, path, (items) => {
+        if (!items) return;
+        queryClient.setQueryData<KBListings>(["kb-summary", kbId], (prev) => (prev ? { ...prev, [path]: items } : prev));
+      }, options)
+    );
+    return () => stops.forEach((stop) => stop());
+  }, [kbId, unsettledPaths, isStalled, queryClient]);
+
+  // Record pending -> indexed/error transitions to estimate throughput
+  const previousStatuses = useRef(new Map<string, FileStatus | undefined>());
+  const [completions, setCompletions] = useState<number[]>([]);
+
+  const resetStall = useCallback(() => {
+    setLastProgressAt(Date.now());
+    setHasStalled(false);
+  }, []);
+
+  useEffect(() => {
+    previousStatuses.current = new Map();
+    setCompletions([]);
+    resetStall();
+  }, [kbId, resetStall]);
+
+  useEffect(() => {
+    const now = Date.now();
+    let completed = 0;
+    let hasProgress = false;
+
+    files.forEach((file) => {
+      const before = previousStatuses.current.get(file.id);
+      if (before === "pending" && (file.status === "indexed" || file.status === "error")) completed++;
+      // Leaving "pending" is progress; a file newly pending (added or retried) starts a fresh window
+      if ((before === "pending") !== (file.status === "pending")) hasProgress = true;
+      previousStatuses.current.set(file.id, file.status);
+    });
+
+    if (completed > 0) {
+      setCompletions((prev) => [...prev.filter((at) => now - at < THROUGHPUT_WINDOW), ...Array<number>(completed).fill(now)]);
+    }
+    if (hasProgress) resetStall();
+  }, [files, resetStall]);
+
+  // Still unsettled with no progress for STALL_TIMEOUT: flag the KB as stalled instead of giving up
+  useEffect(() => {
+    if (!kbId || !hasUnsettledFiles || hasStalled) return;
+
+    const timer = setTimeout(() => {
+      console.log("Indexing stalled, switching to background checks");
+      setHasStalled(true);
+    }, Math.max(0, lastProgressAt + STALL_TIMEOUT - Date.now()));
+    return () => clearTimeout(timer);
+  }, [kbId, hasUnsettledFiles, hasStalled, lastProgressAt]);
+
+  // The rate decays as completions age out of the window, so keep re-evaluating while any are counted
+  const [now, setNow] = useState(Date.now());
+  const hasCompletions = completions.length > 0;
+  useEffect(() => {
+    if (!hasCompletions) return;
+    const timer = setInterval(() => {
+      const tick = Date.now();
+      setNow(tick);
+      setCompletions((prev) => (prev.every((at) => tick - at < THROUGHPUT_WINDOW) ? prev : prev.filter((at) => tick - at < THROUGHPUT_WINDOW)));
+    }, CLOCK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [hasCompletions]);
+
+  const summary = useMemo<KBSummary>(() => {
+    const counts = { indexed: 0, pending: 0, pending_delete: 0, error: 0 };
+    let indexedBytes = 0;
+
+    files.forEach((file) => {
+      if (file.status && file.status in counts) counts[file.status as keyof typeof counts]++;
+      if (file.status === "indexed") indexedBytes += file.size;
+    });
+
+    const finished = counts.indexed + counts.error;
+    const tracked = finished + counts.pending;
+
+    // Rate over the window, or since the first completion if that was more recent
+    const recent = completions.filter((at) => now - at < THROUGHPUT_WINDOW);
+    let throughputPerMinute: number | null = null;
+    if (recent.length > 0) {
+      const elapsed = Math.min(THROUGHPUT_WINDOW, Math.max(now - recent[0], 10_000));
+      throughputPerMinute = (recent.length / elapsed) * 60_000;
+    }
+
+    return {
+      total: files.length,
+      ...counts,
+      indexedBytes,
+      progress: tracked > 0 ? finished / tracked : 1,
+      throughputPerMinute,
+      etaMs: throughputPerMinute && counts.pending > 0 ? (counts.pending / throughputPerMinute) * 60_000 : null,
+    };
+  }, [files, completions, now]);
+
+  // Per-folder roll-up of everything indexed under it, for directory rows
+  const folderRollups = useMemo(() => computeFolderRollups(files), [files]);
+
+  return {
+    summary,
+    folderRollups,
+    isLoading,
+    isStalled,
+    resumeChecking: resetStall,
+  };
+}
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { FileItem } from "@/lib/types/file";
+
+interface UseStalledFilesProps {
+  files: FileItem[];
+  kbId: string | null;
+}
+
+// Constants
+const FILE_STALL_THRESHOLD = 3 * 60 * 1000; // pending this long while nothing else finishes = stalled
+const CLOCK_INTERVAL = 15 * 1000;
+
+// Flag visible files that are stuck: pending for a while with no file leaving "pending" in that time.
+// A steadily draining queue of long-waiting files isn't stalled, it's just busy.
+export function useStalledFiles({ files, kbId }: UseStalledFilesProps) {
+  // First time each visible file was seen pending in this KB
+  const [pendingSince, setPendingSince] = useState<Map<string, number>>(new Map());
+  // Last time a file moved on from "pending" (indexed, failed, ...)
+  const [lastProgressAt, setLastProgressAt] = useState(Date.now());
+  const previousStatuses = useRef(new Map<string, FileItem["status"]>());
+  const [now, setNow] = useState(Date.now());
+
+  const resetStalledFiles = useCallback(() => {
+    setPendingSince(new Map());
+    setLastProgressAt(Date.now());
+  }, []);
+
+  useEffect(() => {
+    previousStatuses.current = new Map();
+    resetStalledFiles();
+  }, [kbId, resetStalledFiles]);
+
+  useEffect(() => {
+    let hasProgress = false;
+    files.forEach((file) => {
+      if (file.type !== "file") return;
+      if (previousStatuses.current.get(file.id) === "pending" && file.status && file.status !== "pending") hasProgress = true;
+      previousStatuses.current.set(file.id, file.status);
+    });
+    if (hasProgress) setLastProgressAt(Date.now());
+
+    // Only rows in view are tracked: files hidden by a collapsed folder drop out and start over when shown again
+    setPendingSince((prev) => {
+      const next = new Map<string, number>();
+      files.forEach((file) => {
+        if (file.type === "file" && file.status === "pending") next.set(file.id, prev.get(file.id) ?? Date.now());
+      });
+      return next;
+    });
+  }, [files]);
+
+  // Re-evaluate periodically while anything is pending
+  const hasPending = pendingSince.size > 0;
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [hasPending]);
+
+  const stalledIds = useMemo(() => {
+    const stalled = new Set<string>();
+    if (now - lastProgressAt < FILE_STALL_THRESHOLD) return stalled;
+    pendingSince.forEach((since, fileId) => {
+      if (now - since >= FILE_STALL_THRESHOLD) stalled.add(fileId);
+    });
+    return stalled;
+  }, [pendingSince, lastProgressAt, now]);
+
+  const isFileStalled = useCallback((fileId: string) => stalledIds.has(fileId), [stalledIds]);
+
+  return {
+    stalledIds,
+    isFileStalled,
+    resetStalledFiles,
+  };
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from "react";
+import { FileItem, FileStatus } from "@/lib/types/file";
+
+const STATUS_PHRASES: Partial<Record<FileStatus, string>> = {
+  indexed: "indexed",
+  error: "failed to index",
+  pending: "indexing",
+  pending_delete: "being removed",
+};
+
+// Screen-reader text for status changes among visible files, e.g. "report.pdf indexed"
+// Files seen for the first time (a folder just expanded) aren't announced
+export function useStatusAnnouncements(files: FileItem[]) {
+  const previousStatuses = useRef(new Map<string, FileStatus | undefined>());
+  const [announcement, setAnnouncement] = useState("");
+
+  useEffect(() => {
+    const changes: { name: string; phrase: string }[] = [];
+
+    files.forEach((file) => {
+      if (file.type !== "file") return;
+      const seen = previousStatuses.current.has(file.id);
+      const before = previousStatuses.current.get(file.id);
+      previousStatuses.current.set(file.id, file.status);
+
+      const phrase = file.status && STATUS_PHRASES[file.status];
+      if (seen && before !== file.status && phrase) {
+        changes.push({ name: file.name.split("/").pop() ?? file.name, phrase });
+      }
+    });
+
+    if (changes.length === 0) return;
+
+    if (changes.length === 1) {
+      setAnnouncement(`${changes[0].name} ${changes[0].phrase}`);
+      return;
+    }
+
+    // Summarize bursts per status instead of reading out every file
+    const counts = new Map<string, number>();
+    changes.forEach(({ phrase }) => counts.set(phrase, (counts.get(phrase) ?? 0) + 1));
+    setAnnouncement(
+      Array.from(counts)
+        .map(([phrase, count]) => `${count} files ${phrase}`)
+        .join(", ")
+    );
+  }, [files]);
+
+  return announcement;
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { QueryClient, useQueryClient } from "@tanstack/react-query";
+import { isStatusEventsSupported, subscribeStatusEvents } from "@/lib/api/statusEvents";
+import { setStatusPushActive } from "@/lib/api/statusPoller";
+import { FileItem, FileListResponse, FileStatusEvent, FolderStatus } from "@/lib/types/file";
+import { getTreeNode } from "@/lib/tree/fileTreeStore";
+import { pickErrorDetails } from "@/lib/utils/fileErrors";
+import type { KBListings } from "./useKnowledgeBaseSummary";
+
+// Insert, update or (without a status) drop the event's file in a listing
+function mergeIntoListing(items: FileItem[], event: FileStatusEvent): FileItem[] {
+  const rest = items.filter((item) => item.id !== event.id);
+  if (!event.status) return rest;
+
+  const existing = items.find((item) => item.id === event.id);
+  const updated: FileItem = {
+    ...(existing ?? { id: event.id, name: event.name ?? event.id, type: event.type ?? "file", size: 0 }),
+    status: event.status,
+    indexed_at: event.indexed_at,
+    ...pickErrorDetails(event),
+  };
+  return [...rest, updated];
+}
+
+// Merge a pushed transition into the same caches polling writes to:
+// root files live in ["kb-resources", kbId], nested ones in their folder's ["kb-folder-status", ...],
+// and the whole-KB summary keeps listings by resource path in ["kb-summary", kbId]
+function applyStatusEvent(queryClient: QueryClient, kbId: string, event: FileStatusEvent) {
+  const isRootItem = event.name !== undefined && !event.name.includes("/");
+
+  if (event.name !== undefined) {
+    const parentPath = isRootItem ? "/" : `/${event.name.slice(0, event.name.lastIndexOf("/"))}`;
+    queryClient.setQueryData<KBListings>(["kb-summary", kbId], (prev) =>
+      prev?.[parentPath] ? { ...prev, [parentPath]: mergeIntoListing(prev[parentPath], event) } : prev
+    );
+  }
+
+  if (isRootItem) {
+    queryClient.setQueryData<FileListResponse>(["kb-resources", kbId], (prev) => (prev ? { data: mergeIntoListing(prev.data, event) } : prev));
+    return;
+  }
+
+  // Update the loaded folder holding this file; unloaded folders pick up status when expanded
+  const folderId = getTreeNode(event.id)?.parentId;
+  if (!folderId) return;
+
+  queryClient.setQueryData<FolderStatus>(["kb-folder-status", kbId, folderId], (prev) => {
+    if (!prev) return prev;
+    const next = { ...prev };
+    if (event.status) {
+      next[event.id] = { status: event.status, indexed_at: event.indexed_at, ...pickErrorDetails(event) };
+    } else {
+      delete next[event.id];
+    }
+    return next;
+  });
+}
+
+// Subscribe to pushed status transitions for a KB; polling pauses while the channel is live
+export function useStatusEvents(kbId: string | null, enabled = true) {
+  const queryClient = useQueryClient();
+  const [isLive, setIsLive] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !kbId || !isStatusEventsSupported()) return;
+
+    return subscribeStatusEvents(kbId, {
+      onStatus: (event) => applyStatusEvent(queryClient, kbId, event),
+      // Missed transitions can't be replayed: reload every status cache of the KB
+      // (expanded folders' kb-folder-status entries are refetched by useFileTree when invalidated)
+      onReset: () => {
+        queryClient.invalidateQueries({ queryKey: ["kb-resources", kbId] });
+        queryClient.invalidateQueries({ queryKey: ["kb-folder-status", kbId] });
+        queryClient.invalidateQueries({ queryKey: ["kb-summary", kbId] });
+      },
+      onAvailabilityChange: (live) => {
+        setStatusPushActive(kbId, live);
+        setIsLive(live);
+      },
+    });
+  }, [enabled, kbId, queryClient]);
+
+  return { isLive };
+}
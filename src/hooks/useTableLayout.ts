@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ColumnOrderState,
+  ColumnSizingInfoState,
+  ColumnSizingState,
+  OnChangeFn,
+  Updater,
+  VisibilityState,
+  functionalUpdate,
+} from "@tanstack/react-table";
+import { TableLayout, clearTableLayout, getTableLayout, saveTableLayout } from "@/lib/utils/localStorage";
+
+interface UseTableLayoutProps {
+  userEmail?: string | null;
+  defaultLayout: TableLayout; // should be a stable reference - a new one reloads the stored layout
+}
+
+const IDLE_RESIZE: ColumnSizingInfoState = {
+  startOffset: null,
+  startSize: null,
+  deltaOffset: null,
+  deltaPercentage: null,
+  isResizingColumn: false,
+  columnSizingStart: [],
+};
+
+// Column order, visibility and widths for the file table, restored per user and saved as they change
+export function useTableLayout({ userEmail, defaultLayout }: UseTableLayoutProps) {
+  const [layout, setLayout] = useState<TableLayout>(defaultLayout);
+  // The drag in progress, if any; widths change on every mousemove, so they're saved once it ends
+  const [columnSizingInfo, setColumnSizingInfo] = useState<ColumnSizingInfoState>(IDLE_RESIZE);
+  const isResizing = columnSizingInfo.isResizingColumn !== false;
+  // Only changes the user made get written back, never the defaults or a layout we just loaded
+  const hasUserChanges = useRef(false);
+
+  useEffect(() => {
+    hasUserChanges.current = false;
+    const stored = userEmail ? getTableLayout(userEmail) : null;
+    setLayout(stored ? { ...defaultLayout, ...stored } : defaultLayout);
+  }, [userEmail, defaultLayout]);
+
+  useEffect(() => {
+    if (userEmail && hasUserChanges.current && !isResizing) saveTableLayout(userEmail, layout);
+  }, [userEmail, layout, isResizing]);
+
+  const update = useCallback(<K extends keyof TableLayout>(key: K, updater: Updater<TableLayout[K]>) => {
+    hasUserChanges.current = true;
+    setLayout((prev) => ({ ...prev, [key]: functionalUpdate(updater, prev[key]) }));
+  }, []);
+
+  const setColumnOrder = useCallback<OnChangeFn<ColumnOrderState>>((updater) => update("columnOrder", updater), [update]);
+  const setColumnVisibility = useCallback<OnChangeFn<VisibilityState>>((updater) => update("columnVisibility", updater), [update]);
+  const setColumnSizing = useCallback<OnChangeFn<ColumnSizingState>>((updater) => update("columnSizing", updater), [update]);
+
+  const resetLayout = useCallback(() => {
+    hasUserChanges.current = false;
+    if (userEmail) clearTableLayout(userEmail);
+    setLayout(defaultLayout);
+  }, [userEmail, defaultLayout]);
+
+  return {
+    columnOrder: layout.columnOrder,
+    columnVisibility: layout.columnVisibility,
+    columnSizing: layout.columnSizing,
+    columnSizingInfo,
+    setColumnOrder,
+    setColumnVisibility,
+    setColumnSizing,
+    setColumnSizingInfo,
+    resetLayout,
+  };
+}
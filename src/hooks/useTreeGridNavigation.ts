@@ -0,0 +1,147 @@
+import { KeyboardEvent, MouseEvent, useCallback, useEffect, useRef, useState } from "react";
+import { getTreeNode } from "@/lib/tree/fileTreeStore";
+import { FileItem } from "@/lib/types/file";
+
+interface UseTreeGridNavigationProps {
+  rows: FileItem[]; // visible rows, in display order
+  isSelected: (fileId: string) => boolean;
+  onToggleFolder?: (folderId: string) => void;
+  onSelect: (fileId: string, isSelected: boolean) => void;
+  onSelectRows: (fileIds: string[], isSelected: boolean) => void;
+  scrollToRow?: (index: number) => void; // bring an unrendered (virtualized) row into the DOM
+}
+
+// Roving focus over treegrid rows: one row is tabbable, arrow keys move between rows,
+// Right/Left open and close folders, Space and Shift+Arrow/Shift+click select
+export function useTreeGridNavigation({ rows, isSelected, onToggleFolder, onSelect, onSelectRows, scrollToRow }: UseTreeGridNavigationProps) {
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const anchorId = useRef<string | null>(null); // where a Shift range starts
+  const shouldFocus = useRef(false); // move DOM focus after keyboard navigation only
+  const containerRef = useRef<HTMLTableSectionElement>(null);
+
+  // Keep a focusable row when the focused one disappears (collapsed folder, filter)
+  const activeId = focusedId && rows.some((row) => row.id === focusedId) ? focusedId : (rows[0]?.id ?? null);
+
+  // Runs after every render: the target row may only show up once its folder has expanded,
+  // and only mounts once it's been scrolled into view
+  useEffect(() => {
+    if (!shouldFocus.current || !focusedId) return;
+    const index = rows.findIndex((row) => row.id === focusedId);
+    if (index < 0) return;
+
+    scrollToRow?.(index);
+    const element = containerRef.current?.querySelector<HTMLElement>(`[data-row-id="${CSS.escape(focusedId)}"]`);
+    if (!element) return;
+    shouldFocus.current = false;
+    element.focus({ preventScroll: true });
+  });
+
+  // Focus a row by id, scrolling to it - also used to land on a search result
+  const moveTo = useCallback((fileId: string) => {
+    shouldFocus.current = true;
+    setFocusedId(fileId);
+  }, []);
+
+  const selectRange = useCallback(
+    (toId: string) => {
+      const from = rows.findIndex((row) => row.id === (anchorId.current ?? toId));
+      const to = rows.findIndex((row) => row.id === toId);
+      if (from < 0 || to < 0) return;
+      onSelectRows(rows.slice(Math.min(from, to), Math.max(from, to) + 1).map((row) => row.id), true);
+    },
+    [rows, onSelectRows]
+  );
+
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLElement>) => {
+      // Controls inside a row (checkbox, Retry) handle their own keys
+      if (!(event.target instanceof HTMLElement) || !event.target.dataset.rowId) return;
+
+      const index = rows.findIndex((row) => row.id === activeId);
+      const row = rows[index];
+      if (!row) return;
+
+      const goTo = (target: FileItem | undefined) => {
+        if (!target) return;
+        moveTo(target.id);
+        if (event.shiftKey) {
+          selectRange(target.id);
+        } else {
+          anchorId.current = target.id;
+        }
+      };
+
+      switch (event.key) {
+        case "ArrowDown":
+          goTo(rows[index + 1]);
+          break;
+        case "ArrowUp":
+          goTo(rows[index - 1]);
+          break;
+        case "Home":
+          goTo(rows[0]);
+          break;
+        case "End":
+          goTo(rows[rows.length - 1]);
+          break;
+        case "ArrowRight":
+          if (row.type !== "directory") return;
+          if (!row.isExpanded) {
+            if (!row.isLoading) onToggleFolder?.(row.id);
+          } else if (rows[index + 1]?.level === (row.level ?? 0) + 1) {
+            goTo(rows[index + 1]);
+          }
+          break;
+        case "ArrowLeft": {
+          if (row.type === "directory" && row.isExpanded) {
+            onToggleFolder?.(row.id);
+            break;
+          }
+          const parentId = getTreeNode(row.id)?.parentId;
+          goTo(rows.find((candidate) => candidate.id === parentId));
+          break;
+        }
+        case "Enter":
+          if (row.type === "directory") onToggleFolder?.(row.id);
+          break;
+        case " ":
+          onSelect(row.id, !isSelected(row.id));
+          anchorId.current = row.id;
+          break;
+        case "a":
+        case "A":
+          if (!(event.ctrlKey || event.metaKey)) return;
+          onSelectRows(rows.map((candidate) => candidate.id), true);
+          break;
+        default:
+          return;
+      }
+
+      event.preventDefault();
+    },
+    [rows, activeId, moveTo, selectRange, onToggleFolder, onSelect, onSelectRows, isSelected]
+  );
+
+  // Plain clicks move the range anchor, Shift+clicks select up to it
+  const handleRowClick = useCallback(
+    (event: MouseEvent, fileId: string) => {
+      setFocusedId(fileId);
+      if (event.shiftKey) {
+        event.preventDefault();
+        selectRange(fileId);
+      } else {
+        anchorId.current = fileId;
+      }
+    },
+    [selectRange]
+  );
+
+  return {
+    containerRef,
+    activeId,
+    setFocusedId,
+    focusRow: moveTo,
+    handleKeyDown,
+    handleRowClick,
+  };
+}
@@ -1,22 +1,34 @@
 import { apiRequest } from "./client";
+import { authStatusSchema, sessionInfoSchema } from "./schemas";
+import { clearSession, createSession, setSession } from "./session";
+import { unknownRecord } from "./validators";
+import { AuthStatus, LoginCredentials } from "../types/auth";
 
-// Get credentials from environment variables
-const CREDENTIALS = {
-  email: process.env.NEXT_PUBLIC_AUTH_EMAIL,
-  password: process.env.NEXT_PUBLIC_AUTH_PASSWORD,
-};
-
-export async function login() {
-  if (!CREDENTIALS.email || !CREDENTIALS.password) {
-    throw new Error("Auth credentials are not defined in environment variables");
-  }
-
-  return apiRequest("/auth/login", {
+export async function login(credentials: LoginCredentials): Promise<void> {
+  const info = await apiRequest("/auth/login", sessionInfoSchema, {
     method: "POST",
-    body: JSON.stringify(CREDENTIALS),
+    body: JSON.stringify(credentials),
+    skipAuth: true,
   });
+
+  setSession(createSession(info));
 }
 
-export async function checkAuthStatus() {
-  return apiRequest("/auth/status");
+export async function checkAuthStatus(): Promise<AuthStatus> {
+  return apiRequest("/auth/status", authStatusSchema);
+}
+
+// Best-effort server-side revocation; the local session is cleared either way
+export async function logout(): Promise<void> {
+  try {
+    await apiRequest("/auth/logout", unknownRecord, {
+      method: "POST",
+      retry: false,
+      skipAuth: true,
+    });
+  } catch (error) {
+    console.error("Failed to revoke session on the server:", error);
+  } finally {
+    clearSession("logout");
+  }
 }
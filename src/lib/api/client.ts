@@ -1,32 +1,247 @@
-// Simple API client configuration
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL;
-if (!API_BASE_URL) {
-  console.warn("NEXT_PUBLIC_API_BASE_URL is not defined. Using default API base URL.");
+import { ApiAuthError, ApiError, NetworkError, TimeoutError, ValidationError, errorFromResponse } from "./errors";
+import { SchemaMismatch, Validator } from "./validators";
+import { fetchWithFaults } from "./faultInjection";
+import { sessionInfoSchema } from "./schemas";
+import { clearSession, createSession, getSession, setSession } from "./session";
+
+// All requests go through the Next.js proxy in src/app/api, which holds the
+// backend URL and session cookies server-side
+export const API_BASE_URL = "/api";
+
+const DEFAULT_TIMEOUT = 30 * 1000; // 30 seconds
+const MAX_RETRY_AFTER = 30 * 1000; // Don't wait longer than this on a server-provided Retry-After
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+const REFRESH_MARGIN = 30 * 1000; // Refresh tokens this long before they expire
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+export interface ApiRequestOptions extends RequestInit {
+  timeoutMs?: number;
+  retry?: RetryPolicy | false;
+  // Override the method-based guess, e.g. for POST endpoints that are safe to repeat
+  idempotent?: boolean;
+  // Don't attempt refresh-and-replay on 401 (used by /auth endpoints)
+  skipAuth?: boolean;
+}
+
+// Subset of options the endpoint functions accept from hooks
+export type RequestOptions = Pick<ApiRequestOptions, "signal" | "timeoutMs">;
+
+// Read the body once - JSON when possible, raw text otherwise (error pages, empty bodies)
+async function readBody(response: Response): Promise<{ json: unknown; text: string; isJson: boolean }> {
+  const text = await response.text();
+  if (!text) return { json: undefined, text, isJson: false };
+
+  try {
+    return { json: JSON.parse(text), text, isJson: true };
+  } catch {
+    return { json: undefined, text, isJson: false };
+  }
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+// Decide whether a failed attempt may be repeated
+// Non-idempotent requests are only retried when the server explicitly asked us to come back later,
+// which means it rejected the request before doing any work.
+function shouldRetry(error: unknown, idempotent: boolean): boolean {
+  if (!(error instanceof ApiError)) return false;
+
+  if (error.status === 429 || error.status === 503) {
+    return idempotent || error.retryAfterMs !== null;
+  }
+
+  if (!idempotent) return false;
+
+  return error instanceof NetworkError || error.status === 502 || error.status === 504;
+}
+
+function getRetryDelay(error: ApiError, attempt: number, policy: RetryPolicy): number {
+  if (error.retryAfterMs !== null) return error.retryAfterMs;
+
+  // Exponential backoff with full jitter
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.random() * exponential;
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
-// Basic fetch wrapper with error handling
-export async function apiRequest(endpoint: string, options: RequestInit = {}): Promise<any> {
-  if (!API_BASE_URL) {
-    throw new Error("API_BASE_URL is not defined in environment variables");
+type ResponseBody = Awaited<ReturnType<typeof readBody>>;
+
+// Single attempt: fetch and read the body with a timeout that also follows the caller's signal
+// Both stay armed until the body is fully read, so a response that stalls after its headers still fails.
+async function fetchOnce(url: string, init: RequestInit, timeoutMs: number, callerSignal?: AbortSignal | null): Promise<{ response: Response; body: ResponseBody }> {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  const onCallerAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    onCallerAbort();
+  } else {
+    callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+  }
+
+  try {
+    const response = await fetchWithFaults(url, { ...init, signal: controller.signal });
+    const body = await readBody(response);
+    return { response, body };
+  } catch (error) {
+    if (timedOut) throw new TimeoutError(url, timeoutMs);
+    // Caller cancellation propagates untouched so React Query can recognise it
+    if (callerSignal?.aborted || isAbortError(error)) throw error;
+    throw new NetworkError(url, error);
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener("abort", onCallerAbort);
+  }
+}
+
+async function requestOnce<T>(url: string, schema: Validator<T>, init: RequestInit, timeoutMs: number, signal?: AbortSignal | null): Promise<T> {
+  const { response, body } = await fetchOnce(url, init, timeoutMs, signal);
+
+  if (!response.ok) {
+    throw errorFromResponse(response.status, url, body.isJson ? body.json : body.text, parseRetryAfter(response.headers.get("Retry-After")));
+  }
+
+  if (body.text && !body.isJson) {
+    throw new ValidationError(url, "$", "JSON body", body.text);
+  }
+
+  try {
+    return schema(body.json);
+  } catch (error) {
+    if (error instanceof SchemaMismatch) {
+      throw new ValidationError(url, error.path, error.expected, body.json);
+    }
+    throw error;
+  }
+}
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+async function performRefresh(): Promise<boolean> {
+  if (!getSession()) return false;
+
+  try {
+    // The refresh token travels in an httpOnly cookie
+    const info = await apiRequest("/auth/refresh", sessionInfoSchema, {
+      method: "POST",
+      skipAuth: true,
+    });
+    setSession(createSession(info));
+    return true;
+  } catch (error) {
+    console.error("Failed to refresh session:", error);
+    return false;
   }
+}
+
+// Single-flight refresh: concurrent 401s (e.g. several folders polling) share one refresh call
+export function refreshSession(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = performRefresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
 
+// Typed fetch wrapper: validates the response body against `schema`, enforces a timeout,
+// follows the caller's AbortSignal, retries transient failures with exponential backoff
+// and transparently refreshes the session once when the backend answers 401
+export async function apiRequest<T>(endpoint: string, schema: Validator<T>, options: ApiRequestOptions = {}): Promise<T> {
+  const { timeoutMs = DEFAULT_TIMEOUT, retry = DEFAULT_RETRY_POLICY, idempotent, skipAuth = false, signal, ...init } = options;
   const url = `${API_BASE_URL}${endpoint}`;
+  const method = (init.method || "GET").toUpperCase();
+  const isIdempotent = idempotent ?? IDEMPOTENT_METHODS.includes(method);
 
-  const response = await fetch(url, {
-    ...options,
+  const requestInit: RequestInit = {
+    ...init,
     headers: {
       "Content-Type": "application/json",
-      ...options.headers,
+      ...init.headers,
     },
-  });
+  };
 
-  if (!response.ok) {
-    // Create a more detailed error object
-    const error = new Error(`API Error: ${response.status}`);
-    (error as any).status = response.status;
-    (error as any).url = url;
-    throw error;
+  // Refresh proactively instead of spending a round trip on a guaranteed 401
+  const session = skipAuth ? null : getSession();
+  if (session?.expiresAt && session.expiresAt - Date.now() < REFRESH_MARGIN) {
+    await refreshSession();
   }
 
-  return response.json();
+  let attempt = 0;
+  let replayedAfterRefresh = false;
+
+  for (;;) {
+    try {
+      return await requestOnce(url, schema, requestInit, timeoutMs, signal);
+    } catch (error) {
+      if (!skipAuth && error instanceof ApiAuthError && error.status === 401) {
+        if (!replayedAfterRefresh && (await refreshSession())) {
+          replayedAfterRefresh = true;
+          continue;
+        }
+        // Only announce expiry if we actually had a session to lose
+        if (getSession()) clearSession("expired");
+        throw error;
+      }
+
+      const canRetry = retry !== false && attempt < retry.retries && !signal?.aborted && shouldRetry(error, isIdempotent);
+      if (!canRetry) throw error;
+
+      const delay = getRetryDelay(error as ApiError, attempt, retry);
+      if (delay > MAX_RETRY_AFTER) throw error;
+
+      attempt++;
+      console.warn(`Retrying ${method} ${endpoint} in ${Math.round(delay)}ms (attempt ${attempt}/${retry.retries})`);
+      await sleep(delay, signal);
+    }
+  }
 }
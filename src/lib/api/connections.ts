@@ -1,11 +1,13 @@
-import { apiRequest } from "./client";
+import { apiRequest, RequestOptions } from "./client";
+import { connectionInfoSchema, fileListResponseSchema } from "./schemas";
 import { FileListResponse } from "../types/file";
+import { ConnectionInfo } from "../types/connection";
 
-export async function getConnectionInfo() {
-  return apiRequest("/connections/info");
+export async function getConnectionInfo(options: RequestOptions = {}): Promise<ConnectionInfo> {
+  return apiRequest("/connections/info", connectionInfoSchema, options);
 }
 
-export async function listResources(resource_id?: string): Promise<FileListResponse> {
+export async function listResources(resource_id?: string, options: RequestOptions = {}): Promise<FileListResponse> {
   const params = resource_id ? `?resource_id=${resource_id}` : "";
-  return apiRequest(`/connections/resources${params}`);
+  return apiRequest(`/connections/resources${params}`, fileListResponseSchema, options);
 }
@@ -0,0 +1,88 @@
+// Error hierarchy for API failures
+// Every error thrown by apiRequest is an ApiError, so callers can branch with instanceof
+// instead of sniffing status codes off plain Error objects.
+
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly url: string;
+  readonly body: unknown;
+  // Parsed Retry-After header, when the server sent one
+  retryAfterMs: number | null = null;
+
+  constructor(message: string, { status = null, url, body }: { status?: number | null; url: string; body?: unknown }) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.url = url;
+    this.body = body;
+  }
+}
+
+// 404 - resource does not exist (e.g. folder not yet indexed in the KB)
+export class ApiNotFoundError extends ApiError {
+  constructor(url: string, body?: unknown) {
+    super(`API Error: 404 Not Found`, { status: 404, url, body });
+    this.name = "ApiNotFoundError";
+  }
+}
+
+// 401/403 - missing or rejected credentials
+export class ApiAuthError extends ApiError {
+  constructor(status: number, url: string, body?: unknown) {
+    super(`API Error: ${status} Unauthorized`, { status, url, body });
+    this.name = "ApiAuthError";
+  }
+}
+
+// 5xx - backend failed to handle the request
+export class ApiServerError extends ApiError {
+  constructor(status: number, url: string, body?: unknown) {
+    super(`API Error: ${status} Server Error`, { status, url, body });
+    this.name = "ApiServerError";
+  }
+}
+
+// Request never produced a response (offline, DNS, CORS, connection reset)
+export class NetworkError extends ApiError {
+  readonly cause: unknown;
+
+  constructor(url: string, cause: unknown) {
+    super(`Network Error: ${cause instanceof Error ? cause.message : "request failed"}`, { url });
+    this.name = "NetworkError";
+    this.cause = cause;
+  }
+}
+
+// Request was aborted because it exceeded its time budget
+export class TimeoutError extends NetworkError {
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super(url, new Error(`timed out after ${timeoutMs}ms`));
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// Response arrived but its body does not match the shape we expect
+export class ValidationError extends ApiError {
+  readonly path: string;
+
+  constructor(url: string, path: string, expected: string, body: unknown) {
+    super(`Invalid response from ${url}: expected ${expected} at ${path}`, { status: null, url, body });
+    this.name = "ValidationError";
+    this.path = path;
+  }
+}
+
+// Map a non-ok HTTP status to the matching error class
+export function errorFromResponse(status: number, url: string, body: unknown, retryAfterMs: number | null = null): ApiError {
+  let error: ApiError;
+  if (status === 404) error = new ApiNotFoundError(url, body);
+  else if (status === 401 || status === 403) error = new ApiAuthError(status, url, body);
+  else if (status >= 500) error = new ApiServerError(status, url, body);
+  else error = new ApiError(`API Error: ${status}`, { status, url, body });
+
+  error.retryAfterMs = retryAfterMs;
+  return error;
+}
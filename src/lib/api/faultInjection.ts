@@ -0,0 +1,171 @@
+// Development-only fault injection for apiRequest
+// Wraps fetch (and filters pushed status events) so failure paths (retries, 404/500 fallbacks,
+// stuck indexing, partial deletes) can be reproduced on demand from the dev panel. Never active
+// in production builds.
+
+import { FileStatusEvent } from "../types/file";
+
+const FAULT_STORAGE_KEY = "stackai_fault_injection";
+
+export interface FaultConfig {
+  enabled: boolean;
+  latencyMs: number; // added to every request
+  latencyJitterMs: number; // random extra latency on top
+  serverErrorRate: number; // 0-1, respond 500
+  malformedJsonRate: number; // 0-1, respond 200 with a truncated body
+  stuckPendingRate: number; // 0-1, share of KB files that never leave "pending"
+  deleteFailureRate: number; // 0-1, KB resource DELETEs that fail with 500
+  rateLimitRetryAfterSec: number; // Retry-After sent with injected 429s
+}
+
+export const DEFAULT_FAULT_CONFIG: FaultConfig = {
+  enabled: false,
+  latencyMs: 0,
+  latencyJitterMs: 0,
+  serverErrorRate: 0,
+  malformedJsonRate: 0,
+  stuckPendingRate: 0,
+  deleteFailureRate: 0,
+  rateLimitRetryAfterSec: 2,
+};
+
+export const isFaultInjectionAvailable = process.env.NODE_ENV !== "production";
+
+let config: FaultConfig | null = null;
+let pendingRateLimits = 0; // remaining requests in the current 429 burst
+const listeners = new Set<() => void>();
+
+function loadConfig(): FaultConfig {
+  if (typeof window === "undefined") return DEFAULT_FAULT_CONFIG;
+
+  try {
+    const stored = localStorage.getItem(FAULT_STORAGE_KEY);
+    return stored ? { ...DEFAULT_FAULT_CONFIG, ...JSON.parse(stored) } : DEFAULT_FAULT_CONFIG;
+  } catch (error) {
+    console.error("Failed to read fault injection config from localStorage:", error);
+    return DEFAULT_FAULT_CONFIG;
+  }
+}
+
+export function getFaultConfig(): FaultConfig {
+  if (config === null) {
+    config = loadConfig();
+  }
+  return config;
+}
+
+export function getServerFaultConfig(): FaultConfig {
+  return DEFAULT_FAULT_CONFIG;
+}
+
+export function updateFaultConfig(changes: Partial<FaultConfig>): void {
+  config = { ...getFaultConfig(), ...changes };
+  try {
+    localStorage.setItem(FAULT_STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error("Failed to save fault injection config to localStorage:", error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeFaultConfig(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// The next `count` requests answer 429 with Retry-After
+export function triggerRateLimitBurst(count: number): void {
+  pendingRateLimits = count;
+}
+
+// Stable per-id coin flip so the same files stay stuck across polls
+function hashFraction(id: string): number {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return (Math.abs(hash) % 1000) / 1000;
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function syntheticResponse(status: number, body: string, headers: Record<string, string> = {}): Response {
+  return new Response(body, { status, headers: { "Content-Type": "application/json", ...headers } });
+}
+
+// Rewrite KB listings so a stable subset of files reports "pending" forever
+async function applyStuckPending(response: Response, rate: number): Promise<Response> {
+  const payload = await response.json();
+  if (Array.isArray(payload?.data)) {
+    payload.data = payload.data.map((item: { id: string; type: string; status?: string }) =>
+      item.type === "file" && item.status === "indexed" && hashFraction(item.id) < rate ? { ...item, status: "pending", indexed_at: undefined } : item
+    );
+  }
+  return syntheticResponse(response.status, JSON.stringify(payload));
+}
+
+// Same rewrite for pushed status events, which come through EventSource rather than fetch
+export function applyStuckPendingToEvent(event: FileStatusEvent): FileStatusEvent {
+  const faults = getFaultConfig();
+  if (!isFaultInjectionAvailable || !faults.enabled || faults.stuckPendingRate <= 0) return event;
+  return event.type !== "directory" && event.status === "indexed" && hashFraction(event.id) < faults.stuckPendingRate
+    ? { ...event, status: "pending", indexed_at: undefined }
+    : event;
+}
+
+export async function fetchWithFaults(url: string, init: RequestInit): Promise<Response> {
+  const faults = getFaultConfig();
+  if (!isFaultInjectionAvailable || !faults.enabled) {
+    return fetch(url, init);
+  }
+
+  const method = (init.method || "GET").toUpperCase();
+  const isKBResources = /\/knowledge-bases\/[^/]+\/resources/.test(url);
+
+  const latency = faults.latencyMs + Math.random() * faults.latencyJitterMs;
+  if (latency > 0) await wait(latency, init.signal);
+
+  if (pendingRateLimits > 0) {
+    pendingRateLimits--;
+    console.warn(`[faults] 429 for ${method} ${url}`);
+    return syntheticResponse(429, JSON.stringify({ detail: "Injected rate limit" }), { "Retry-After": String(faults.rateLimitRetryAfterSec) });
+  }
+
+  if (Math.random() < faults.serverErrorRate) {
+    console.warn(`[faults] 500 for ${method} ${url}`);
+    return syntheticResponse(500, JSON.stringify({ detail: "Injected server error" }));
+  }
+
+  if (method === "DELETE" && isKBResources && Math.random() < faults.deleteFailureRate) {
+    console.warn(`[faults] failed delete for ${url}`);
+    return syntheticResponse(500, JSON.stringify({ detail: "Injected deletion failure" }));
+  }
+
+  const response = await fetch(url, init);
+
+  if (response.ok && Math.random() < faults.malformedJsonRate) {
+    console.warn(`[faults] malformed JSON for ${method} ${url}`);
+    const text = await response.text();
+    return syntheticResponse(response.status, text.slice(0, Math.max(1, Math.floor(text.length / 2))));
+  }
+
+  if (response.ok && method === "GET" && isKBResources && faults.stuckPendingRate > 0) {
+    return applyStuckPending(response, faults.stuckPendingRate);
+  }
+
+  return response;
+}
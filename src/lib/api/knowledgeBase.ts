@@ -1,43 +1,112 @@
-import { apiRequest } from "./client";
-import { KnowledgeBase, CreateKBRequest } from "../types/knowledgeBase";
-import { FileListResponse } from "../types/file";
+import { apiRequest, RequestOptions } from "./client";
+import { ApiNotFoundError, ApiServerError } from "./errors";
+import { deleteKBResourceResponseSchema, fileListResponseSchema, knowledgeBaseListSchema, knowledgeBaseSchema } from "./schemas";
+import { unknownRecord } from "./validators";
+import { KnowledgeBase, CreateKBRequest, UpdateKBRequest, SyncKBResponse, DeleteKBResourceResponse } from "../types/knowledgeBase";
+import { FileItem, FileListResponse } from "../types/file";
 
+export async function listKnowledgeBases(options: RequestOptions = {}): Promise<KnowledgeBase[]> {
+  return apiRequest("/knowledge-bases", knowledgeBaseListSchema, options);
+}
+
+// Not idempotent - a blind retry could create a duplicate KB, so only server-requested retries apply
 export async function createKnowledgeBase(data: CreateKBRequest): Promise<KnowledgeBase> {
-  return apiRequest("/knowledge-bases", {
+  return apiRequest("/knowledge-bases", knowledgeBaseSchema, {
     method: "POST",
     body: JSON.stringify(data),
   });
 }
 
-export async function syncKnowledgeBase(kb_id: string) {
-  return apiRequest(`/knowledge-bases/${kb_id}/sync`, {
+export async function getKnowledgeBase(kb_id: string, options: RequestOptions = {}): Promise<KnowledgeBase> {
+  return apiRequest(`/knowledge-bases/${kb_id}`, knowledgeBaseSchema, options);
+}
+
+export async function updateKnowledgeBase(kb_id: string, data: UpdateKBRequest): Promise<KnowledgeBase> {
+  return apiRequest(`/knowledge-bases/${kb_id}`, knowledgeBaseSchema, {
+    method: "PATCH",
+    body: JSON.stringify(data),
+    idempotent: true,
+  });
+}
+
+export async function deleteKnowledgeBase(kb_id: string): Promise<void> {
+  await apiRequest(`/knowledge-bases/${kb_id}`, unknownRecord, {
+    method: "DELETE",
+  });
+}
+
+// Re-triggering a sync is harmless, so it may be retried like a GET
+export async function syncKnowledgeBase(kb_id: string): Promise<SyncKBResponse> {
+  return apiRequest(`/knowledge-bases/${kb_id}/sync`, unknownRecord, {
     method: "POST",
+    idempotent: true,
   });
 }
 
-export async function listKBResources(kb_id: string, resource_path: string = "/"): Promise<FileListResponse> {
+// Re-submit specific resources, e.g. files whose indexing failed
+export async function retryKBResources(kb_id: string, resource_ids: string[]): Promise<SyncKBResponse> {
+  return apiRequest(`/knowledge-bases/${kb_id}/sync`, unknownRecord, {
+    method: "POST",
+    body: JSON.stringify({ resource_ids }),
+    idempotent: true,
+  });
+}
+
+export async function listKBResources(kb_id: string, resource_path: string = "/", options: RequestOptions = {}): Promise<FileListResponse> {
   const params = `?resource_path=${encodeURIComponent(resource_path)}`;
-  return apiRequest(`/knowledge-bases/${kb_id}/resources${params}`);
+  return apiRequest(`/knowledge-bases/${kb_id}/resources${params}`, fileListResponseSchema, options);
 }
 
 // Safe version that handles 404/500 errors gracefully for folder expansion
-export async function listKBResourcesSafe(kb_id: string, resource_path: string = "/"): Promise<FileListResponse | null> {
+export async function listKBResourcesSafe(kb_id: string, resource_path: string = "/", options: RequestOptions = {}): Promise<FileListResponse | null> {
   try {
-    const params = `?resource_path=${encodeURIComponent(resource_path)}`;
-    return await apiRequest(`/knowledge-bases/${kb_id}/resources${params}`);
-  } catch (error: any) {
+    return await listKBResources(kb_id, resource_path, options);
+  } catch (error) {
     // If the folder doesn't exist in KB (404) or server error (500), return null instead of throwing
-    if (error.status === 404 || error.status === 500) {
+    if (error instanceof ApiNotFoundError || (error instanceof ApiServerError && error.status === 500)) {
       return null;
     }
-    // Re-throw other errors (network issues, etc.)
+    // Re-throw other errors (network issues, validation, etc.)
     throw error;
   }
 }
 
-export async function deleteKBResource(kb_id: string, resource_path: string) {
+const WALK_CONCURRENCY = 4;
+
+// Every KB folder's listing keyed by resource path ("/", "/Contracts", ...)
+// The backend only lists folders that hold indexed content, so this walks the KB, not the whole drive.
+export async function listAllKBResources(kb_id: string, options: RequestOptions = {}): Promise<Record<string, FileItem[]>> {
+  const listings: Record<string, FileItem[]> = {};
+  let level = ["/"];
+
+  while (level.length > 0) {
+    const nextLevel: string[] = [];
+
+    for (let i = 0; i < level.length; i += WALK_CONCURRENCY) {
+      const paths = level.slice(i, i + WALK_CONCURRENCY);
+      const responses = await Promise.all(paths.map((path) => listKBResourcesSafe(kb_id, path, options)));
+
+      responses.forEach((response, index) => {
+        const items = response?.data ?? [];
+        listings[paths[index]] = items;
+        items.filter((item) => item.type === "directory").forEach((folder) => nextLevel.push(`/${folder.name}`));
+      });
+    }
+
+    level = nextLevel;
+  }
+
+  return listings;
+}
+
+export async function deleteKBResource(kb_id: string, resource_path: string): Promise<DeleteKBResourceResponse> {
   const params = `?resource_path=${encodeURIComponent(resource_path)}`;
-  return apiRequest(`/knowledge-bases/${kb_id}/resources${params}`, {
+  const response = await apiRequest(`/knowledge-bases/${kb_id}/resources${params}`, deleteKBResourceResponseSchema, {
     method: "DELETE",
   });
+
+  return {
+    success: response.success === true || response.message === "Resource deleted",
+    message: response.message,
+  };
 }
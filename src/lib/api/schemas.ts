@@ -0,0 +1,77 @@
+// Response schemas for every endpoint the app calls
+import { FILE_STATUSES, FileItem, FileListResponse, FileStatusEvent } from "../types/file";
+import { KnowledgeBase } from "../types/knowledgeBase";
+import { AuthStatus, LoginResponse, SessionInfo } from "../types/auth";
+import { ConnectionInfo } from "../types/connection";
+import { Validator, arrayOf, boolean, number, object, oneOf, oneOfOr, optional, string, withDefault } from "./validators";
+
+export const fileItemSchema: Validator<FileItem> = object({
+  id: string,
+  name: string,
+  type: oneOf(["file", "directory"] as const),
+  size: withDefault(number, 0), // directories come back without a size
+  mime_type: optional(string),
+  modified_at: optional(string),
+  owner: optional(string),
+  status: optional(oneOfOr(FILE_STATUSES, "unknown")), // a status this client doesn't know shouldn't fail the listing
+  indexed_at: optional(string),
+  error_message: optional(string),
+  error_code: optional(string),
+  last_attempt_at: optional(string),
+  attempt_count: optional(number),
+});
+
+// Payload of a "status" event on /knowledge-bases/{id}/events
+export const fileStatusEventSchema: Validator<FileStatusEvent> = object({
+  id: string,
+  name: optional(string),
+  type: optional(oneOf(["file", "directory"] as const)),
+  status: optional(oneOfOr(FILE_STATUSES, "unknown")),
+  indexed_at: optional(string),
+  error_message: optional(string),
+  error_code: optional(string),
+  last_attempt_at: optional(string),
+  attempt_count: optional(number),
+});
+
+export const fileListResponseSchema: Validator<FileListResponse> = object({
+  data: arrayOf(fileItemSchema),
+});
+
+export const knowledgeBaseSchema: Validator<KnowledgeBase> = object({
+  id: string,
+  name: string,
+  description: optional(string),
+  created_at: string,
+  is_empty: withDefault(boolean, false),
+  resource_ids: optional(arrayOf(string)),
+});
+
+export const knowledgeBaseListSchema: Validator<KnowledgeBase[]> = arrayOf(knowledgeBaseSchema);
+
+export const authStatusSchema: Validator<AuthStatus> = object({
+  authenticated: boolean,
+});
+
+export const loginResponseSchema: Validator<LoginResponse> = object({
+  access_token: string,
+  refresh_token: optional(string),
+  expires_in: optional(number),
+});
+
+export const sessionInfoSchema: Validator<SessionInfo> = object({
+  email: string,
+  expires_in: optional(number),
+});
+
+export const connectionInfoSchema: Validator<ConnectionInfo> = object({
+  connection_id: optional(string),
+  name: optional(string),
+  connection_provider: optional(string),
+});
+
+// Delete endpoint has answered both { success: true } and { message: "Resource deleted" }
+export const deleteKBResourceResponseSchema = object({
+  success: optional(boolean),
+  message: optional(string),
+});
@@ -0,0 +1,93 @@
+// Client-side session store
+// The tokens themselves live in httpOnly cookies set by the /api proxy; this only tracks who is
+// signed in and until when, persists that across reloads and notifies subscribers (useAuth)
+// when the session starts, refreshes, expires or ends.
+import { SessionInfo } from "../types/auth";
+
+const SESSION_STORAGE_KEY = "stackai_session";
+
+export interface Session {
+  email: string;
+  expiresAt: number | null; // epoch ms, null when the backend doesn't tell us
+}
+
+export type SessionStatus = "authenticated" | "anonymous" | "expired";
+
+export interface SessionState {
+  session: Session | null;
+  status: SessionStatus;
+}
+
+const ANONYMOUS_STATE: SessionState = { session: null, status: "anonymous" };
+
+let state: SessionState | null = null;
+const listeners = new Set<() => void>();
+
+function loadFromStorage(): SessionState {
+  if (typeof window === "undefined") return ANONYMOUS_STATE;
+
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    const session = stored ? (JSON.parse(stored) as Session) : null;
+    return session?.email ? { session, status: "authenticated" } : ANONYMOUS_STATE;
+  } catch (error) {
+    console.error("Failed to read session from localStorage:", error);
+    return ANONYMOUS_STATE;
+  }
+}
+
+function writeToStorage(session: Session | null): void {
+  try {
+    if (session) {
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Failed to persist session to localStorage:", error);
+  }
+}
+
+function setState(next: SessionState): void {
+  state = next;
+  writeToStorage(next.session);
+  listeners.forEach((listener) => listener());
+}
+
+export function getSessionState(): SessionState {
+  if (state === null) {
+    state = loadFromStorage();
+  }
+  return state;
+}
+
+export function getServerSessionState(): SessionState {
+  return ANONYMOUS_STATE;
+}
+
+export function getSession(): Session | null {
+  return getSessionState().session;
+}
+
+export function createSession(info: SessionInfo): Session {
+  return {
+    email: info.email,
+    expiresAt: info.expires_in ? Date.now() + info.expires_in * 1000 : null,
+  };
+}
+
+export function setSession(session: Session): void {
+  setState({ session, status: "authenticated" });
+}
+
+// "expired" keeps the reason around so the login screen can explain what happened
+export function clearSession(reason: "logout" | "expired" = "logout"): void {
+  setState({ session: null, status: reason === "expired" ? "expired" : "anonymous" });
+}
+
+export function subscribeSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,86 @@
+// Push channel for KB status transitions (Server-Sent Events through the /api proxy)
+// EventSource reconnects on its own and resends the last event id, so short drops resume
+// without losing transitions. When the backend has no event endpoint (or keeps failing) the
+// channel reports itself unavailable and callers stay on polling; it retries with backoff.
+import { API_BASE_URL } from "./client";
+import { applyStuckPendingToEvent } from "./faultInjection";
+import { fileStatusEventSchema } from "./schemas";
+import { SchemaMismatch } from "./validators";
+import { FileStatusEvent } from "../types/file";
+
+export interface StatusEventHandlers {
+  onStatus: (event: FileStatusEvent) => void;
+  onReset: () => void; // the stream couldn't resume (or had nothing to resume from) - reload everything
+  onAvailabilityChange: (isLive: boolean) => void;
+}
+
+const INITIAL_RECONNECT_DELAY = 5000;
+const MAX_RECONNECT_DELAY = 5 * 60 * 1000;
+
+// Last event id seen per KB, so a new subscription resumes where the previous one stopped
+const resumeTokens = new Map<string, string>();
+
+export function isStatusEventsSupported(): boolean {
+  return typeof window !== "undefined" && typeof EventSource !== "undefined";
+}
+
+export function subscribeStatusEvents(kbId: string, handlers: StatusEventHandlers): () => void {
+  let source: EventSource | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectDelay = INITIAL_RECONNECT_DELAY;
+  let closed = false;
+
+  const rememberEventId = (event: MessageEvent) => {
+    if (event.lastEventId) resumeTokens.set(kbId, event.lastEventId);
+  };
+
+  const connect = () => {
+    const resumeToken = resumeTokens.get(kbId);
+    const query = resumeToken ? `?last_event_id=${encodeURIComponent(resumeToken)}` : "";
+    source = new EventSource(`${API_BASE_URL}/knowledge-bases/${kbId}/events${query}`);
+
+    source.onopen = () => {
+      reconnectDelay = INITIAL_RECONNECT_DELAY;
+      handlers.onAvailabilityChange(true);
+      // Without an event id the stream starts at "now", so transitions since the last fetch were never sent
+      if (!resumeTokens.has(kbId)) handlers.onReset();
+    };
+
+    source.addEventListener("status", (event) => {
+      rememberEventId(event);
+      try {
+        handlers.onStatus(applyStuckPendingToEvent(fileStatusEventSchema(JSON.parse(event.data))));
+      } catch (error) {
+        if (error instanceof SchemaMismatch || error instanceof SyntaxError) {
+          console.error("Ignoring malformed status event:", error.message);
+          return;
+        }
+        throw error;
+      }
+    });
+
+    source.addEventListener("reset", (event) => {
+      rememberEventId(event);
+      handlers.onReset();
+    });
+
+    source.onerror = () => {
+      handlers.onAvailabilityChange(false);
+
+      // CONNECTING means the browser is already retrying; CLOSED means it gave up (e.g. a 404)
+      if (source?.readyState !== EventSource.CLOSED || closed) return;
+      source.close();
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+    };
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+    source?.close();
+    handlers.onAvailabilityChange(false);
+  };
+}
@@ -0,0 +1,200 @@
+// Single polling engine for KB indexing status
+// Every KB path with unsettled items is registered here instead of running its own timer.
+// Each path is fetched once per interval however many watchers it has, and the result goes to all of them.
+// A path polls as often as its most eager watcher wants (watchers back off as their indexing drags on),
+// and nothing is fetched while the tab is hidden or while a KB's push channel is live.
+import { listKBResourcesSafe } from "./knowledgeBase";
+import { FileItem } from "../types/file";
+
+export type StatusListener = (items: FileItem[] | null) => void;
+
+interface Watcher {
+  listener: StatusListener;
+  startedAt: number;
+  fixedInterval: number | null; // overrides the backoff schedule
+}
+
+interface WatchedPath {
+  kbId: string;
+  path: string;
+  watchers: Set<Watcher>;
+  nextPollAt: number;
+  controller: AbortController | null;
+}
+
+const MAX_CONCURRENT_REQUESTS = 4;
+const BATCH_WINDOW = 250; // paths due within this window are fetched on the same tick
+
+// Poll fast while indexing usually finishes, then progressively slower
+const BACKOFF_STEPS: [elapsedMs: number, intervalMs: number][] = [
+  [10_000, 1000],
+  [30_000, 2000],
+  [2 * 60_000, 5000],
+];
+const MAX_INTERVAL = 10_000;
+
+const watched = new Map<string, WatchedPath>(); // by keyOf(kbId, path)
+const pushedKBs = new Set<string>(); // KBs whose status currently arrives over the push channel
+let timer: ReturnType<typeof setTimeout> | null = null;
+let isTicking = false;
+let visibilityListenerAttached = false;
+
+export interface WatchOptions {
+  intervalMs?: number; // poll at this fixed rate instead of backing off
+}
+
+function keyOf(kbId: string, path: string): string {
+  return `${kbId}:${path}`;
+}
+
+export function getPollInterval(elapsedMs: number): number {
+  const step = BACKOFF_STEPS.find(([until]) => elapsedMs < until);
+  return step ? step[1] : MAX_INTERVAL;
+}
+
+function watcherInterval(watcher: Watcher, now: number): number {
+  return watcher.fixedInterval ?? getPollInterval(now - watcher.startedAt);
+}
+
+// The shortest interval any watcher of the path asks for
+function pathInterval(entry: WatchedPath, now: number): number {
+  return Math.min(...Array.from(entry.watchers, (watcher) => watcherInterval(watcher, now)));
+}
+
+function isHidden(): boolean {
+  return typeof document !== "undefined" && document.visibilityState === "hidden";
+}
+
+function attachVisibilityListener() {
+  if (visibilityListenerAttached || typeof document === "undefined") return;
+  visibilityListenerAttached = true;
+
+  document.addEventListener("visibilitychange", () => {
+    if (isHidden()) {
+      clearTimer();
+      return;
+    }
+    // Catch up right away when the user comes back
+    const now = Date.now();
+    watched.forEach((entry) => (entry.nextPollAt = Math.min(entry.nextPollAt, now)));
+    schedule();
+  });
+}
+
+function clearTimer() {
+  if (timer !== null) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
+
+function schedule() {
+  clearTimer();
+  if (isTicking || watched.size === 0 || isHidden()) return;
+
+  const nextDue = Math.min(...Array.from(watched.values(), (entry) => entry.nextPollAt));
+  timer = setTimeout(tick, Math.max(0, nextDue - Date.now()));
+}
+
+// One request for a path, delivered to every watcher of it
+async function pollPath(entry: WatchedPath) {
+  const controller = new AbortController();
+  entry.controller = controller;
+
+  try {
+    const response = await listKBResourcesSafe(entry.kbId, entry.path, { signal: controller.signal });
+    // Skip watchers that were removed while the request was in flight, or by an earlier listener
+    Array.from(entry.watchers).forEach((watcher) => {
+      if (entry.watchers.has(watcher)) watcher.listener(response?.data ?? null);
+    });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error(`Status poll failed for ${entry.path}:`, error);
+    }
+  } finally {
+    if (entry.controller === controller) entry.controller = null;
+  }
+}
+
+async function tick() {
+  timer = null;
+  if (isHidden()) return;
+
+  isTicking = true;
+  const now = Date.now();
+  const due = Array.from(watched.values()).filter((entry) => entry.nextPollAt <= now + BATCH_WINDOW);
+  const toFetch = due.filter((entry) => !pushedKBs.has(entry.kbId));
+
+  // Fetch due paths in small batches so a wide tree doesn't flood the backend
+  for (let i = 0; i < toFetch.length; i += MAX_CONCURRENT_REQUESTS) {
+    await Promise.all(toFetch.slice(i, i + MAX_CONCURRENT_REQUESTS).map(pollPath));
+  }
+
+  const finishedAt = Date.now();
+  due.forEach((entry) => {
+    if (entry.watchers.size > 0) entry.nextPollAt = finishedAt + pathInterval(entry, finishedAt);
+  });
+
+  isTicking = false;
+  schedule();
+}
+
+/**
+ * Poll a KB path until the returned function is called
+ * Watchers of the same path share one request per interval; a new watcher brings the next poll forward
+ * to its own (fast) schedule, and the path slows down only once every watcher has backed off.
+ */
+export function watchStatus(kbId: string, path: string, listener: StatusListener, options: WatchOptions = {}): () => void {
+  const now = Date.now();
+  const watcher: Watcher = { listener, startedAt: now, fixedInterval: options.intervalMs ?? null };
+  const firstPollAt = now + watcherInterval(watcher, now);
+
+  const key = keyOf(kbId, path);
+  let entry = watched.get(key);
+  if (entry) {
+    entry.nextPollAt = Math.min(entry.nextPollAt, firstPollAt);
+  } else {
+    entry = { kbId, path, watchers: new Set(), nextPollAt: firstPollAt, controller: null };
+    watched.set(key, entry);
+  }
+  entry.watchers.add(watcher);
+  const watchedPath = entry;
+
+  attachVisibilityListener();
+  schedule();
+
+  return () => {
+    if (!watchedPath.watchers.delete(watcher) || watchedPath.watchers.size > 0) return;
+    // Last watcher gone: drop the path and any request still in flight for it
+    if (watched.get(key) === watchedPath) watched.delete(key);
+    watchedPath.controller?.abort();
+    schedule();
+  };
+}
+
+// Pause polling for a KB while pushed updates arrive; resume right away when the channel drops
+export function setStatusPushActive(kbId: string, isActive: boolean): void {
+  if (isActive) {
+    pushedKBs.add(kbId);
+    return;
+  }
+
+  if (!pushedKBs.delete(kbId)) return;
+  const now = Date.now();
+  watched.forEach((entry) => {
+    if (entry.kbId === kbId) entry.nextPollAt = now;
+  });
+  schedule();
+}
+
+// Stop polling every path of a KB (or everything), e.g. on KB switch or sign out
+export function cancelStatusPolling(kbId?: string): void {
+  watched.forEach((entry, key) => {
+    if (kbId === undefined || entry.kbId === kbId) {
+      entry.controller?.abort();
+      entry.watchers.clear();
+      watched.delete(key);
+    }
+  });
+  schedule();
+}
@@ -0,0 +1,84 @@
+// Minimal runtime validators for API responses
+// Each validator returns the value typed as T or throws SchemaMismatch describing
+// where the payload diverged; apiRequest turns that into a ValidationError.
+
+export type Validator<T> = (value: unknown, path?: string) => T;
+
+export class SchemaMismatch extends Error {
+  readonly path: string;
+  readonly expected: string;
+
+  constructor(path: string, expected: string) {
+    super(`Expected ${expected} at ${path}`);
+    this.name = "SchemaMismatch";
+    this.path = path;
+    this.expected = expected;
+  }
+}
+
+function fail(path: string, expected: string): never {
+  throw new SchemaMismatch(path, expected);
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export const string: Validator<string> = (value, path = "$") => (typeof value === "string" ? value : fail(path, "string"));
+
+export const number: Validator<number> = (value, path = "$") => (typeof value === "number" && Number.isFinite(value) ? value : fail(path, "number"));
+
+export const boolean: Validator<boolean> = (value, path = "$") => (typeof value === "boolean" ? value : fail(path, "boolean"));
+
+export const unknownRecord: Validator<Record<string, unknown>> = (value, path = "$") => (isRecord(value) ? value : fail(path, "object"));
+
+export function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+  return (value, path = "$") => (values.includes(value as T) ? (value as T) : fail(path, values.map((v) => `"${v}"`).join(" | ")));
+}
+
+// Like oneOf, but strings outside the list map to `fallback` (for enums the backend may extend)
+export function oneOfOr<T extends string>(values: readonly T[], fallback: T): Validator<T> {
+  return (value, path = "$") => {
+    const text = string(value, path);
+    return values.includes(text as T) ? (text as T) : fallback;
+  };
+}
+
+// Accepts undefined and null (backend omits or nulls optional fields interchangeably)
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path = "$") => (value === undefined || value === null ? undefined : validator(value, path));
+}
+
+export function withDefault<T>(validator: Validator<T>, fallback: T): Validator<T> {
+  return (value, path = "$") => (value === undefined || value === null ? fallback : validator(value, path));
+}
+
+export function arrayOf<T>(validator: Validator<T>): Validator<T[]> {
+  return (value, path = "$") => {
+    if (!Array.isArray(value)) fail(path, "array");
+    return value.map((item, index) => validator(item, `${path}[${index}]`));
+  };
+}
+
+export function recordOf<T>(validator: Validator<T>): Validator<Record<string, T>> {
+  return (value, path = "$") => {
+    if (!isRecord(value)) fail(path, "object");
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, validator(item, `${path}.${key}`)]));
+  };
+}
+
+type Shape = Record<string, Validator<unknown>>;
+type ShapeOutput<S extends Shape> = { [K in keyof S]: ReturnType<S[K]> };
+
+// Validates the listed keys and drops anything else
+export function object<S extends Shape>(shape: S): Validator<ShapeOutput<S>> {
+  return (value, path = "$") => {
+    if (!isRecord(value)) fail(path, "object");
+
+    const result = {} as ShapeOutput<S>;
+    for (const key of Object.keys(shape) as (keyof S & string)[]) {
+      result[key] = shape[key](value[key], `${path}.${key}`) as ShapeOutput<S>[typeof key];
+    }
+    return result;
+  };
+}
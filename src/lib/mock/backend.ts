@@ -0,0 +1,455 @@
+// In-memory stand-in for the Stack AI backend
+// Speaks the same HTTP contract as the real service using web-standard Request/Response,
+// so it can sit behind the Next.js proxy (BACKEND_MODE=mock) or replace fetch in hook tests.
+// Indexing is simulated lazily from timestamps: no timers, state advances whenever it's read.
+// The only exception is an open status event stream, which re-reads state while connected.
+import { FAILING_FILE_PATTERN, FLAKY_FILE_PATTERN, MockDriveNode, createSeedTree } from "./seed";
+
+export interface MockBackendOptions {
+  email?: string;
+  password?: string;
+  indexingDelayMs?: number; // time a file stays "pending"
+  deleteDelayMs?: number; // time a file stays "pending_delete"
+  eventIntervalMs?: number; // how often an open event stream checks for transitions
+  tokenTtlSeconds?: number;
+  latencyMs?: number; // artificial response delay
+}
+
+export interface MockBackend {
+  handle(request: Request): Promise<Response>;
+  reset(): void;
+}
+
+interface IndexEntry {
+  status: "pending" | "indexed" | "error" | "pending_delete";
+  since: number;
+  attempts: number;
+  attempted_at: string; // when the latest attempt started
+  indexed_at?: string;
+  error_code?: string;
+  error_message?: string;
+}
+
+// A status transition, replayable by sequence number for resuming event streams
+interface StatusEvent {
+  seq: number;
+  resource: Record<string, unknown>;
+}
+
+interface MockKnowledgeBase {
+  id: string;
+  name: string;
+  description: string;
+  created_at: string;
+  resource_ids: string[];
+  allowed_file_types: string[];
+  entries: Map<string, IndexEntry>; // keyed by Drive file id
+  events: StatusEvent[];
+}
+
+const DEFAULTS: Required<MockBackendOptions> = {
+  email: "dev@stack-ai.local",
+  password: "password",
+  indexingDelayMs: 4000,
+  deleteDelayMs: 1500,
+  eventIntervalMs: 500,
+  tokenTtlSeconds: 60 * 60,
+  latencyMs: 150,
+};
+
+const MAX_EVENT_LOG = 500; // per KB; older resume tokens get a "reset" instead of a replay
+const HEARTBEAT_INTERVAL = 15 * 1000;
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+function notFound(message = "Not found"): Response {
+  return json(404, { detail: message });
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Resource paths arrive as "/Contracts/2025" or "Contracts/2025/file.pdf"
+function normalizePath(path: string): string {
+  return path.replace(/^\/+|\/+$/g, "");
+}
+
+export function createMockBackend(overrides: MockBackendOptions = {}): MockBackend {
+  const options = { ...DEFAULTS, ...overrides };
+
+  let drive: Map<string, MockDriveNode>;
+  let knowledgeBases: Map<string, MockKnowledgeBase>;
+  let accessTokens: Map<string, { email: string; expiresAt: number }>;
+  let refreshTokens: Map<string, string>;
+  let eventSeq = 0;
+
+  function reset() {
+    drive = createSeedTree();
+    knowledgeBases = new Map();
+    accessTokens = new Map();
+    refreshTokens = new Map();
+    eventSeq = 0;
+  }
+  reset();
+
+  function childrenOf(parentId: string | null): MockDriveNode[] {
+    return Array.from(drive.values()).filter((node) => node.parentId === parentId);
+  }
+
+  function findByPath(path: string): MockDriveNode | undefined {
+    const name = normalizePath(path);
+    return Array.from(drive.values()).find((node) => node.name === name);
+  }
+
+  function issueTokens(email: string) {
+    const access_token = randomId("access");
+    const refresh_token = randomId("refresh");
+    accessTokens.set(access_token, { email, expiresAt: Date.now() + options.tokenTtlSeconds * 1000 });
+    refreshTokens.set(refresh_token, email);
+    return { access_token, refresh_token, expires_in: options.tokenTtlSeconds, email };
+  }
+
+  function authenticate(request: Request): string | null {
+    const token = request.headers.get("Authorization")?.replace(/^Bearer /, "");
+    const entry = token ? accessTokens.get(token) : undefined;
+    if (!entry || entry.expiresAt < Date.now()) return null;
+    return entry.email;
+  }
+
+  function failureReason(node: MockDriveNode | undefined, attempts: number): { code: string; message: string } | null {
+    if (!node) return null;
+    if (FAILING_FILE_PATTERN.test(node.name)) return { code: "EXTRACTION_FAILED", message: "Could not extract text: the file appears to be corrupted" };
+    if (FLAKY_FILE_PATTERN.test(node.name) && attempts === 1) return { code: "PARSER_TIMEOUT", message: "Parser timed out while processing the document" };
+    return null;
+  }
+
+  // Status fields shared by listings and pushed events
+  function serializeEntry(entry: IndexEntry | null | undefined) {
+    return {
+      indexed_at: entry?.indexed_at,
+      error_code: entry?.error_code,
+      error_message: entry?.error_message,
+      last_attempt_at: entry?.attempted_at,
+      attempt_count: entry?.attempts,
+    };
+  }
+
+  // Change (or remove, with null) a file's entry and log the transition for event streams
+  function setEntry(kb: MockKnowledgeBase, fileId: string, entry: IndexEntry | null) {
+    if (entry) {
+      kb.entries.set(fileId, entry);
+    } else {
+      kb.entries.delete(fileId);
+    }
+
+    const node = drive.get(fileId);
+    kb.events.push({
+      seq: ++eventSeq,
+      resource: {
+        id: fileId,
+        name: node?.name,
+        type: node?.type,
+        status: entry?.status ?? null, // null: no longer in the KB
+        ...serializeEntry(entry),
+      },
+    });
+    if (kb.events.length > MAX_EVENT_LOG) kb.events.shift();
+  }
+
+  // Advance an entry through pending -> indexed/error and pending_delete -> removed
+  function settle(kb: MockKnowledgeBase, now: number) {
+    kb.entries.forEach((entry, fileId) => {
+      if (entry.status === "pending" && now - entry.since >= options.indexingDelayMs) {
+        const reason = failureReason(drive.get(fileId), entry.attempts);
+        const { attempts, attempted_at } = entry;
+        setEntry(
+          kb,
+          fileId,
+          reason
+            ? { status: "error", since: now, attempts, attempted_at, error_code: reason.code, error_message: reason.message }
+            : { status: "indexed", since: now, attempts, attempted_at, indexed_at: new Date(now).toISOString() }
+        );
+      } else if (entry.status === "pending_delete" && now - entry.since >= options.deleteDelayMs) {
+        setEntry(kb, fileId, null);
+      }
+    });
+  }
+
+  // Like the real backend, a folder id indexes the files directly inside it (not recursively).
+  // A targeted sync (explicit resource ids) also re-queues files that previously failed.
+  function startIndexing(kb: MockKnowledgeBase, resourceIds?: string[]) {
+    const now = Date.now();
+    const fileIds = new Set<string>();
+
+    (resourceIds ?? kb.resource_ids).forEach((id) => {
+      const node = drive.get(id);
+      if (!node) return;
+      if (node.type === "file") {
+        fileIds.add(node.id);
+      } else {
+        childrenOf(node.id)
+          .filter((child) => child.type === "file")
+          .forEach((child) => fileIds.add(child.id));
+      }
+    });
+
+    fileIds.forEach((fileId) => {
+      const extension = drive.get(fileId)?.name.split(".").pop()?.toLowerCase() ?? "";
+      if (kb.allowed_file_types.length > 0 && !kb.allowed_file_types.includes(extension)) return;
+
+      const entry = kb.entries.get(fileId);
+      if (!entry) {
+        setEntry(kb, fileId, { status: "pending", since: now, attempts: 1, attempted_at: new Date(now).toISOString() });
+      } else if (resourceIds && entry.status === "error") {
+        setEntry(kb, fileId, { status: "pending", since: now, attempts: entry.attempts + 1, attempted_at: new Date(now).toISOString() });
+      }
+    });
+  }
+
+  function hasIndexedDescendant(kb: MockKnowledgeBase, folder: MockDriveNode): boolean {
+    return Array.from(kb.entries.keys()).some((fileId) => drive.get(fileId)?.name.startsWith(`${folder.name}/`));
+  }
+
+  // Direct children of a path that are part of the KB, files carrying their index status
+  function listKBChildren(kb: MockKnowledgeBase, path: string): Response {
+    const name = normalizePath(path);
+    const folder = name ? findByPath(name) : null;
+    if (name && (!folder || folder.type !== "directory" || !hasIndexedDescendant(kb, folder))) {
+      return notFound("Resource path not found in knowledge base");
+    }
+
+    const data = childrenOf(folder?.id ?? null)
+      .filter((node) => (node.type === "file" ? kb.entries.has(node.id) : hasIndexedDescendant(kb, node)))
+      .map((node) => {
+        const entry = kb.entries.get(node.id);
+        return {
+          id: node.id,
+          name: node.name,
+          type: node.type,
+          size: node.size,
+          mime_type: node.mime_type,
+          status: node.type === "file" ? entry?.status : "unknown",
+          ...serializeEntry(entry),
+        };
+      });
+
+    return json(200, { data });
+  }
+
+  // Server-Sent Events stream of status transitions
+  // Resumes after the Last-Event-ID header (or ?last_event_id=) when the log still covers it.
+  function streamEvents(kb: MockKnowledgeBase, request: Request, resumeFrom: string | null): Response {
+    const encoder = new TextEncoder();
+    let cursor = resumeFrom !== null && /^\d+$/.test(resumeFrom) ? Number(resumeFrom) : eventSeq;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let lastWriteAt = Date.now();
+        const write = (chunk: string) => {
+          controller.enqueue(encoder.encode(chunk));
+          lastWriteAt = Date.now();
+        };
+
+        write("retry: 2000\n\n");
+
+        // The requested event fell out of the log: the client has to reload instead of replaying
+        const oldest = kb.events[0]?.seq ?? eventSeq + 1;
+        if (cursor < oldest - 1) {
+          write(`id: ${eventSeq}\nevent: reset\ndata: {}\n\n`);
+          cursor = eventSeq;
+        }
+
+        const flush = () => {
+          if (!knowledgeBases.has(kb.id)) {
+            close();
+            return;
+          }
+
+          settle(kb, Date.now());
+          kb.events
+            .filter((event) => event.seq > cursor)
+            .forEach((event) => {
+              write(`id: ${event.seq}\nevent: status\ndata: ${JSON.stringify(event.resource)}\n\n`);
+              cursor = event.seq;
+            });
+
+          if (Date.now() - lastWriteAt >= HEARTBEAT_INTERVAL) write(": heartbeat\n\n");
+        };
+
+        const timer = setInterval(flush, options.eventIntervalMs);
+        const close = () => {
+          clearInterval(timer);
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        request.signal.addEventListener("abort", close);
+        flush();
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
+  }
+
+  function serializeKB(kb: MockKnowledgeBase) {
+    return {
+      id: kb.id,
+      name: kb.name,
+      description: kb.description,
+      created_at: kb.created_at,
+      is_empty: kb.entries.size === 0,
+      resource_ids: kb.resource_ids,
+    };
+  }
+
+  async function route(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/\/+$/, "");
+    const method = request.method.toUpperCase();
+    const body = method === "GET" || method === "DELETE" ? null : await request.json().catch(() => null);
+
+    // --- Auth ---
+    if (path === "/auth/login" && method === "POST") {
+      if (body?.email !== options.email || body?.password !== options.password) {
+        return json(401, { detail: "Invalid credentials" });
+      }
+      return json(200, issueTokens(options.email));
+    }
+
+    if (path === "/auth/refresh" && method === "POST") {
+      const email = refreshTokens.get(body?.refresh_token);
+      if (!email) return json(401, { detail: "Invalid refresh token" });
+      refreshTokens.delete(body.refresh_token);
+      return json(200, issueTokens(email));
+    }
+
+    const email = authenticate(request);
+
+    if (path === "/auth/logout" && method === "POST") {
+      if (body?.refresh_token) refreshTokens.delete(body.refresh_token);
+      return json(200, { success: true });
+    }
+
+    if (!email) return json(401, { detail: "Not authenticated" });
+
+    if (path === "/auth/status" && method === "GET") {
+      return json(200, { authenticated: true });
+    }
+
+    // --- Connections ---
+    if (path === "/connections/info" && method === "GET") {
+      return json(200, { connection_id: "mock-connection", name: "Google Drive (mock)", connection_provider: "gdrive" });
+    }
+
+    if (path === "/connections/resources" && method === "GET") {
+      const resourceId = url.searchParams.get("resource_id");
+      if (resourceId && drive.get(resourceId)?.type !== "directory") return notFound("Folder not found");
+
+      const data = childrenOf(resourceId).map((node) => ({
+        id: node.id,
+        name: node.name,
+        type: node.type,
+        size: node.size,
+        mime_type: node.mime_type,
+        modified_at: node.modified_at,
+        owner: node.owner,
+      }));
+      return json(200, { data });
+    }
+
+    // --- Knowledge bases ---
+    if (path === "/knowledge-bases" && method === "GET") {
+      return json(
+        200,
+        Array.from(knowledgeBases.values()).map((kb) => {
+          settle(kb, Date.now());
+          return serializeKB(kb);
+        })
+      );
+    }
+
+    if (path === "/knowledge-bases" && method === "POST") {
+      const kb: MockKnowledgeBase = {
+        id: randomId("kb"),
+        name: String(body?.name ?? "Untitled knowledge base"),
+        description: String(body?.description ?? ""),
+        created_at: new Date().toISOString(),
+        resource_ids: Array.isArray(body?.resource_ids) ? body.resource_ids.map(String) : [],
+        allowed_file_types: Array.isArray(body?.indexing_params?.allowed_file_types) ? body.indexing_params.allowed_file_types.map(String) : [],
+        entries: new Map(),
+        events: [],
+      };
+      knowledgeBases.set(kb.id, kb);
+      return json(200, serializeKB(kb));
+    }
+
+    const kbMatch = path.match(/^\/knowledge-bases\/([^/]+)(\/.*)?$/);
+    if (kbMatch) {
+      const kb = knowledgeBases.get(decodeURIComponent(kbMatch[1]));
+      if (!kb) return notFound("Knowledge base not found");
+
+      settle(kb, Date.now());
+      const rest = kbMatch[2] ?? "";
+
+      if (rest === "" && method === "GET") {
+        return json(200, serializeKB(kb));
+      }
+
+      if (rest === "" && method === "PATCH") {
+        if (typeof body?.name === "string" && body.name.trim()) kb.name = body.name.trim();
+        if (typeof body?.description === "string") kb.description = body.description;
+        // New ids are picked up by the next sync; removed ids don't unindex anything
+        if (Array.isArray(body?.resource_ids)) kb.resource_ids = body.resource_ids.map(String);
+        return json(200, serializeKB(kb));
+      }
+
+      if (rest === "" && method === "DELETE") {
+        knowledgeBases.delete(kb.id);
+        return json(200, { message: "Knowledge base deleted" });
+      }
+
+      if (rest === "/sync" && method === "POST") {
+        startIndexing(kb, Array.isArray(body?.resource_ids) ? body.resource_ids.map(String) : undefined);
+        return json(200, { message: "Sync started" });
+      }
+
+      if (rest === "/events" && method === "GET") {
+        return streamEvents(kb, request, request.headers.get("Last-Event-ID") ?? url.searchParams.get("last_event_id"));
+      }
+
+      if (rest === "/resources" && method === "GET") {
+        return listKBChildren(kb, url.searchParams.get("resource_path") ?? "/");
+      }
+
+      if (rest === "/resources" && method === "DELETE") {
+        const node = findByPath(url.searchParams.get("resource_path") ?? "");
+        const entry = node ? kb.entries.get(node.id) : undefined;
+        if (!node || !entry) return notFound("Resource not found in knowledge base");
+
+        setEntry(kb, node.id, { status: "pending_delete", since: Date.now(), attempts: entry.attempts, attempted_at: entry.attempted_at });
+        return json(200, { message: "Resource deleted" });
+      }
+    }
+
+    return notFound(`No mock route for ${method} ${path}`);
+  }
+
+  return {
+    async handle(request) {
+      if (options.latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, options.latencyMs));
+      }
+      return route(request);
+    },
+    reset,
+  };
+}
@@ -0,0 +1,42 @@
+// fetch replacement that routes the client's /api calls straight into a mock backend
+// Plays the part of the Next.js proxy: remembers the tokens from /auth/login and /auth/refresh
+// (the proxy keeps them in cookies) and attaches them to later requests. Useful for hook tests:
+//
+//   const backend = createMockBackend({ latencyMs: 0, indexingDelayMs: 50 });
+//   globalThis.fetch = createMockFetch(backend);
+import type { MockBackend } from "./backend";
+
+const API_PREFIX = "/api";
+const MOCK_ORIGIN = "http://mock.local";
+
+export function createMockFetch(backend: MockBackend): typeof fetch {
+  let accessToken: string | null = null;
+  let refreshToken: string | null = null;
+
+  return async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const rawUrl = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
+    const path = rawUrl.startsWith(API_PREFIX) ? rawUrl.slice(API_PREFIX.length) : rawUrl;
+
+    // The proxy reads the refresh token from its cookie rather than the request body
+    let body = init.body;
+    if (path.startsWith("/auth/refresh") || path.startsWith("/auth/logout")) {
+      body = JSON.stringify({ refresh_token: refreshToken });
+    }
+
+    const headers = new Headers(init.headers);
+    if (accessToken) headers.set("Authorization", `Bearer ${accessToken}`);
+
+    const response = await backend.handle(new Request(`${MOCK_ORIGIN}${path}`, { ...init, body, headers }));
+
+    if (response.ok && (path.startsWith("/auth/login") || path.startsWith("/auth/refresh"))) {
+      const tokens = await response.clone().json();
+      accessToken = tokens.access_token;
+      refreshToken = tokens.refresh_token;
+    } else if (path.startsWith("/auth/logout")) {
+      accessToken = null;
+      refreshToken = null;
+    }
+
+    return response;
+  };
+}
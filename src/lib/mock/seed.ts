@@ -0,0 +1,108 @@
+// Seeded Google Drive tree for the in-memory backend
+// Names are full paths (like the real connection API returns) and include a few traps:
+// sibling folders sharing a prefix ("Docs" / "Docs-old") and files that always fail to index.
+
+export interface MockDriveNode {
+  id: string;
+  name: string;
+  type: "file" | "directory";
+  size: number;
+  mime_type?: string;
+  modified_at: string;
+  owner: string;
+  parentId: string | null;
+}
+
+type SeedEntry = [name: string, size?: number, mime_type?: string];
+
+const PDF = "application/pdf";
+const DOCX = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+const XLSX = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+const MD = "text/markdown";
+const TXT = "text/plain";
+const PNG = "image/png";
+
+// Directories are entries without a size
+const SEED: SeedEntry[] = [
+  ["Contracts"],
+  ["Contracts/2024"],
+  ["Contracts/2024/acme-msa.pdf", 482_113, PDF],
+  ["Contracts/2024/acme-sow-01.pdf", 201_554, PDF],
+  ["Contracts/2025"],
+  ["Contracts/2025/globex-nda.pdf", 96_020, PDF],
+  ["Contracts/2025/globex-msa-draft.docx", 54_870, DOCX],
+  ["Contracts/2025/scanned-corrupt-amendment.pdf", 7_340_032, PDF],
+  ["Contracts/template-nda.docx", 31_744, DOCX],
+  ["Reports"],
+  ["Reports/Q1"],
+  ["Reports/Q1/revenue.xlsx", 1_204_224, XLSX],
+  ["Reports/Q1/board-deck.pdf", 5_872_025, PDF],
+  ["Reports/Q2"],
+  ["Reports/Q2/revenue.xlsx", 1_310_720, XLSX],
+  ["Reports/Q2/notes.md", 4_210, MD],
+  ["Reports/Q2/flaky-forecast.pdf", 1_048_576, PDF],
+  ["Reports/annual-summary.pdf", 2_621_440, PDF],
+  ["Docs"],
+  ["Docs/onboarding.md", 12_288, MD],
+  ["Docs/architecture.pdf", 3_145_728, PDF],
+  ["Docs/diagrams"],
+  ["Docs/diagrams/system-overview.png", 845_312, PNG],
+  ["Docs/diagrams/data-flow.png", 612_044, PNG],
+  ["Docs-old"],
+  ["Docs-old/onboarding-2019.md", 9_812, MD],
+  ["Docs-old/legacy-api.txt", 22_016, TXT],
+  ["README.md", 2_048, MD],
+  ["budget.xlsx", 88_064, XLSX],
+  ["corrupt-export.pdf", 15_360, PDF],
+];
+
+// Spread modification times over 2025 in an order unrelated to the names, so sorting by date is visible
+const SEED_EPOCH = Date.UTC(2025, 0, 6, 9, 30);
+const DAY = 24 * 60 * 60 * 1000;
+
+function seedModifiedAt(index: number): string {
+  return new Date(SEED_EPOCH + ((index * 37) % 300) * DAY + ((index * 7) % 24) * 60 * 60 * 1000).toISOString();
+}
+
+// Each top-level folder belongs to a team; loose files at the root are the user's own
+const OWNERS: Record<string, string> = {
+  Contracts: "legal@acme.test",
+  Reports: "finance@acme.test",
+  Docs: "eng@acme.test",
+  "Docs-old": "eng@acme.test",
+};
+const DEFAULT_OWNER = "me@acme.test";
+
+function toId(name: string): string {
+  return `mock-${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`;
+}
+
+export function createSeedTree(): Map<string, MockDriveNode> {
+  const nodes = new Map<string, MockDriveNode>();
+  const idsByName = new Map<string, string>();
+
+  SEED.forEach(([name, size, mime_type], index) => {
+    const id = toId(name);
+    const parentName = name.includes("/") ? name.slice(0, name.lastIndexOf("/")) : null;
+
+    idsByName.set(name, id);
+    nodes.set(id, {
+      id,
+      name,
+      type: size === undefined ? "directory" : "file",
+      size: size ?? 0,
+      mime_type,
+      modified_at: seedModifiedAt(index),
+      owner: OWNERS[name.split("/")[0]] ?? DEFAULT_OWNER,
+      parentId: parentName ? idsByName.get(parentName) ?? null : null,
+    });
+  });
+
+  return nodes;
+}
+
+// Files whose name matches this always end up in "error"
+export const FAILING_FILE_PATTERN = /corrupt/i;
+
+// Files whose name matches this fail their first indexing attempt and succeed on retry
+export const FLAKY_FILE_PATTERN = /flaky/i;
@@ -0,0 +1,212 @@
+// Server-side access to the Stack AI backend
+// Only route handlers under src/app/api import this module: the backend URL and the
+// session tokens live here and in httpOnly cookies, never in the browser bundle.
+import { NextRequest, NextResponse } from "next/server";
+import { loginResponseSchema } from "@/lib/api/schemas";
+import { SchemaMismatch } from "@/lib/api/validators";
+import { MockBackend, createMockBackend } from "@/lib/mock/backend";
+import type { LoginResponse } from "@/lib/types/auth";
+
+const BACKEND_URL = process.env.API_BASE_URL || "http://localhost:8000";
+const USE_MOCK_BACKEND = process.env.BACKEND_MODE === "mock";
+const CACHE_TTL = 30 * 1000; // 30 seconds for Drive listings
+const MAX_CACHE_ENTRIES = 500;
+const REFRESH_COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // 30 days, in seconds
+
+export const ACCESS_COOKIE = "stackai_access_token";
+export const REFRESH_COOKIE = "stackai_refresh_token";
+export const EMAIL_COOKIE = "stackai_session_email";
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+};
+
+// Drive listings are read-only from this app, so short-lived caching per session is safe
+const responseCache = new Map<string, { expiresAt: number; status: number; body: string }>();
+
+function isCacheable(method: string, backendPath: string): boolean {
+  return method === "GET" && backendPath.startsWith("/connections/");
+}
+
+function readCache(key: string) {
+  const entry = responseCache.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt < Date.now()) {
+    responseCache.delete(key);
+    return null;
+  }
+  return entry;
+}
+
+function writeCache(key: string, status: number, body: string): void {
+  if (responseCache.size >= MAX_CACHE_ENTRIES) {
+    // Map preserves insertion order, so the first key is the oldest
+    const oldestKey = responseCache.keys().next().value;
+    if (oldestKey !== undefined) responseCache.delete(oldestKey);
+  }
+  responseCache.set(key, { expiresAt: Date.now() + CACHE_TTL, status, body });
+}
+
+// Keep one mock instance across dev-server module reloads so its state survives edits
+const globalForMock = globalThis as typeof globalThis & { __stackaiMockBackend?: MockBackend };
+
+function getMockBackend(): MockBackend {
+  if (!globalForMock.__stackaiMockBackend) {
+    globalForMock.__stackaiMockBackend = createMockBackend();
+    console.log("[api proxy] BACKEND_MODE=mock - serving requests from the in-memory backend");
+  }
+  return globalForMock.__stackaiMockBackend;
+}
+
+// fetch against the backend (or the in-memory stand-in) with request logging
+export async function callBackend(path: string, init: RequestInit = {}, accessToken?: string): Promise<Response> {
+  const method = init.method || "GET";
+  const startedAt = Date.now();
+
+  const requestInit: RequestInit = {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      ...init.headers,
+    },
+    cache: "no-store",
+  };
+
+  const response = USE_MOCK_BACKEND ? await getMockBackend().handle(new Request(`${BACKEND_URL}${path}`, requestInit)) : await fetch(`${BACKEND_URL}${path}`, requestInit);
+
+  console.log(`[api proxy] ${method} ${path} -> ${response.status} (${Date.now() - startedAt}ms)`);
+  return response;
+}
+
+// Parse a token payload from /auth/login or /auth/refresh, null if the shape is wrong
+export async function readTokens(response: Response): Promise<LoginResponse | null> {
+  try {
+    return loginResponseSchema(await response.json());
+  } catch (error) {
+    if (error instanceof SchemaMismatch || error instanceof SyntaxError) {
+      console.error("[api proxy] Unexpected token payload from backend:", error.message);
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function refreshTokens(refreshToken: string): Promise<LoginResponse | null> {
+  try {
+    const response = await callBackend("/auth/refresh", {
+      method: "POST",
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    });
+    return response.ok ? await readTokens(response) : null;
+  } catch (error) {
+    console.error("[api proxy] Token refresh failed:", error);
+    return null;
+  }
+}
+
+export function setSessionCookies(response: NextResponse, email: string, tokens: LoginResponse, previousRefreshToken?: string): void {
+  response.cookies.set(ACCESS_COOKIE, tokens.access_token, {
+    ...cookieOptions,
+    ...(tokens.expires_in ? { maxAge: tokens.expires_in } : {}),
+  });
+
+  const refreshToken = tokens.refresh_token ?? previousRefreshToken;
+  if (refreshToken) {
+    response.cookies.set(REFRESH_COOKIE, refreshToken, { ...cookieOptions, maxAge: REFRESH_COOKIE_MAX_AGE });
+  }
+
+  response.cookies.set(EMAIL_COOKIE, email, { ...cookieOptions, maxAge: REFRESH_COOKIE_MAX_AGE });
+}
+
+export function clearSessionCookies(response: NextResponse): void {
+  [ACCESS_COOKIE, REFRESH_COOKIE, EMAIL_COOKIE].forEach((name) => response.cookies.delete(name));
+}
+
+export function jsonError(status: number, error: string): NextResponse {
+  return NextResponse.json({ error }, { status });
+}
+
+function isEventStream(response: Response): boolean {
+  return response.ok && !!response.headers.get("Content-Type")?.startsWith("text/event-stream");
+}
+
+function buildResponse(status: number, body: string, upstream?: Response): NextResponse {
+  const response = new NextResponse(body || null, { status });
+  response.headers.set("Content-Type", upstream?.headers.get("Content-Type") || "application/json");
+
+  // Let the client's retry policy see the backend's back-off hint
+  const retryAfter = upstream?.headers.get("Retry-After");
+  if (retryAfter) response.headers.set("Retry-After", retryAfter);
+
+  return response;
+}
+
+function buildStreamResponse(upstream: Response): NextResponse {
+  return new NextResponse(upstream.body, {
+    status: upstream.status,
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache, no-transform" },
+  });
+}
+
+// Forward a browser request to the backend using the session stored in cookies
+// A 401 from the backend triggers one server-side refresh-and-replay before giving up.
+// Server-Sent Event streams are piped through unbuffered and closed when the browser disconnects.
+export async function proxyRequest(request: NextRequest, backendPath: string): Promise<NextResponse> {
+  const method = request.method;
+  const target = `${backendPath}${request.nextUrl.search}`;
+  const accessToken = request.cookies.get(ACCESS_COOKIE)?.value;
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+  const email = request.cookies.get(EMAIL_COOKIE)?.value ?? "";
+  const body = method === "GET" || method === "HEAD" ? undefined : await request.text();
+  const lastEventId = request.headers.get("Last-Event-ID");
+  const init: RequestInit = {
+    method,
+    body,
+    signal: request.signal,
+    headers: lastEventId ? { "Last-Event-ID": lastEventId } : undefined,
+  };
+
+  const cacheKey = `${accessToken}:${target}`;
+  if (accessToken && isCacheable(method, backendPath)) {
+    const cached = readCache(cacheKey);
+    if (cached) {
+      console.log(`[api proxy] ${method} ${target} -> ${cached.status} (cached)`);
+      return buildResponse(cached.status, cached.body);
+    }
+  }
+
+  try {
+    let upstream = await callBackend(target, init, accessToken);
+    let refreshed: LoginResponse | null = null;
+
+    if (upstream.status === 401 && refreshToken) {
+      refreshed = await refreshTokens(refreshToken);
+      if (refreshed) {
+        upstream = await callBackend(target, init, refreshed.access_token);
+      }
+    }
+
+    // Event streams are piped through as they arrive; everything else is buffered
+    const text = isEventStream(upstream) ? null : await upstream.text();
+    const response = text === null ? buildStreamResponse(upstream) : buildResponse(upstream.status, text, upstream);
+
+    if (refreshed) {
+      setSessionCookies(response, email, refreshed, refreshToken);
+    } else if (upstream.status === 401) {
+      clearSessionCookies(response);
+    }
+
+    if (text !== null && upstream.ok && isCacheable(method, backendPath)) {
+      writeCache(`${refreshed?.access_token ?? accessToken}:${target}`, upstream.status, text);
+    }
+
+    return response;
+  } catch (error) {
+    console.error(`[api proxy] ${method} ${target} failed:`, error);
+    return jsonError(502, "Backend unavailable");
+  }
+}
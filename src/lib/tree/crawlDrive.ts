@@ -0,0 +1,45 @@
+// Breadth-first walk through Drive folders, a few listings at a time
+// Listings go through the tree's ["drive-files", id] cache, so walked folders expand without refetching,
+// and are recorded in the tree store before the walk moves on (cache subscribers only hear of them later).
+import { QueryClient } from "@tanstack/react-query";
+import { listResources } from "../api/connections";
+import { FileItem } from "../types/file";
+import { recordFolderContents } from "./fileTreeStore";
+
+const CRAWL_CONCURRENCY = 4;
+const STALE_TIME = 5 * 60 * 1000; // same as the tree
+
+interface CrawlOptions {
+  signal?: AbortSignal;
+  onListing?: (items: FileItem[]) => void; // called per batch of folders as they load
+}
+
+// Walks everything under the given folders (undefined: the Drive root); resolves early if aborted
+export async function crawlDriveFolders(queryClient: QueryClient, folderIds: (string | undefined)[], { signal, onListing }: CrawlOptions = {}): Promise<void> {
+  let level = folderIds;
+
+  while (level.length > 0 && !signal?.aborted) {
+    const nextLevel: string[] = [];
+
+    for (let i = 0; i < level.length && !signal?.aborted; i += CRAWL_CONCURRENCY) {
+      const batch = level.slice(i, i + CRAWL_CONCURRENCY);
+      const listings = await Promise.all(
+        batch.map((folderId) =>
+          queryClient.fetchQuery({
+            queryKey: ["drive-files", folderId ?? "root"],
+            queryFn: ({ signal }) => listResources(folderId, { signal }),
+            staleTime: STALE_TIME,
+          })
+        )
+      );
+      if (signal?.aborted) return;
+
+      batch.forEach((folderId, index) => recordFolderContents(folderId ?? null, listings[index].data));
+      const found = listings.flatMap((listing) => listing.data);
+      found.filter((item) => item.type === "directory").forEach((folder) => nextLevel.push(folder.id));
+      onListing?.(found);
+    }
+
+    level = nextLevel;
+  }
+}
@@ -0,0 +1,142 @@
+// Normalized Drive tree: every loaded item by id, with its parent, path and depth
+// Filled from listResources responses as folders load, so hierarchy questions (descendants, a folder's
+// KB resource path) come from real parent links instead of being inferred from names.
+import { FileItem } from "../types/file";
+
+export interface TreeNode {
+  id: string;
+  parentId: string | null; // null for items at the Drive root
+  path: string; // "Contracts/2025/nda.pdf", no leading slash
+  depth: number; // 0 at the root
+  type: FileItem["type"];
+  size: number; // 0 for directories - see folderSizes for their totals
+  mimeType?: string;
+  childIds?: string[]; // directories only, once their contents have loaded
+}
+
+const nodes = new Map<string, TreeNode>();
+let rootIds: string[] | undefined;
+let version = 0; // bumped on every change, for caches derived from the tree
+const listeners = new Set<() => void>();
+
+function bumpVersion() {
+  version++;
+  listeners.forEach((listener) => listener());
+}
+
+function baseName(name: string): string {
+  return name.slice(name.lastIndexOf("/") + 1);
+}
+
+function removeSubtree(id: string) {
+  nodes.get(id)?.childIds?.forEach(removeSubtree);
+  nodes.delete(id);
+}
+
+/**
+ * Record a folder's listing (the Drive root's, with a null parent)
+ * Items that disappeared since the last listing are dropped along with everything loaded under them.
+ * Listings for folders the store doesn't know yet are ignored - load parents first.
+ */
+export function recordFolderContents(parentId: string | null, items: FileItem[]): void {
+  const parent = parentId === null ? undefined : nodes.get(parentId);
+  if (parentId !== null && !parent) return;
+
+  const childIds = items.map((item) => item.id);
+  const current = new Set(childIds);
+  (parent ? parent.childIds : rootIds)?.forEach((id) => {
+    if (!current.has(id)) removeSubtree(id);
+  });
+
+  items.forEach((item) => {
+    const name = baseName(item.name);
+    nodes.set(item.id, {
+      id: item.id,
+      parentId,
+      path: parent ? `${parent.path}/${name}` : name,
+      depth: parent ? parent.depth + 1 : 0,
+      type: item.type,
+      size: item.size,
+      mimeType: item.mime_type,
+      childIds: nodes.get(item.id)?.childIds,
+    });
+  });
+
+  if (parent) {
+    nodes.set(parent.id, { ...parent, childIds });
+  } else {
+    rootIds = childIds;
+  }
+  bumpVersion();
+}
+
+export function getTreeVersion(): number {
+  return version;
+}
+
+/**
+ * Wrap a computation over the tree so it reruns only when the tree changes
+ * Returns the same value between changes, which makes it usable as a useSyncExternalStore snapshot.
+ */
+export function memoizePerTreeVersion<T>(compute: () => T): () => T {
+  let cachedVersion = -1;
+  let value: T;
+  return () => {
+    if (cachedVersion !== version) {
+      value = compute();
+      cachedVersion = version;
+    }
+    return value;
+  };
+}
+
+export function subscribeTree(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getTreeNode(id: string): TreeNode | undefined {
+  return nodes.get(id);
+}
+
+// Loaded children of a folder (of the Drive root, with null); undefined until its listing loads
+export function getChildIds(parentId: string | null): string[] | undefined {
+  return parentId === null ? rootIds : nodes.get(parentId)?.childIds;
+}
+
+// Path in the form KB resource endpoints expect ("/Contracts/2025")
+export function getResourcePath(id: string): string | undefined {
+  const node = nodes.get(id);
+  return node ? `/${node.path}` : undefined;
+}
+
+// Every loaded item below a folder, depth-first
+export function getDescendantIds(id: string): string[] {
+  const descendants: string[] = [];
+  const visit = (nodeId: string) => {
+    nodes.get(nodeId)?.childIds?.forEach((childId) => {
+      descendants.push(childId);
+      visit(childId);
+    });
+  };
+  visit(id);
+  return descendants;
+}
+
+export function isDescendantOf(id: string, ancestorId: string): boolean {
+  let parentId = nodes.get(id)?.parentId;
+  while (parentId) {
+    if (parentId === ancestorId) return true;
+    parentId = nodes.get(parentId)?.parentId;
+  }
+  return false;
+}
+
+// Forget everything, e.g. on sign-out
+export function resetFileTree(): void {
+  nodes.clear();
+  rootIds = undefined;
+  bumpVersion();
+}
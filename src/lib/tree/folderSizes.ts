@@ -0,0 +1,104 @@
+// Sizes and file counts of folders, summed over what the tree store has loaded below them
+// A folder whose subtree isn't fully loaded still gets a total, flagged incomplete (a lower bound).
+import { formatMimeType } from "../utils/format";
+import { getChildIds, getTreeNode, getTreeVersion } from "./fileTreeStore";
+
+export interface FolderTotals {
+  size: number;
+  fileCount: number;
+  isComplete: boolean; // false while some folder below hasn't been listed
+}
+
+export interface SelectionSummary {
+  size: number;
+  fileCount: number;
+  byType: { label: string; fileCount: number; size: number }[]; // largest first
+  unloadedFolderIds: string[]; // selected folders (or folders below them) whose contents aren't known yet
+}
+
+// Totals only change when the store does, so they're cached per store version
+let cacheVersion = -1;
+const cache = new Map<string, FolderTotals>();
+
+// undefined until the folder's own listing has loaded
+export function getFolderTotals(folderId: string): FolderTotals | undefined {
+  if (cacheVersion !== getTreeVersion()) {
+    cache.clear();
+    cacheVersion = getTreeVersion();
+  }
+
+  const cached = cache.get(folderId);
+  if (cached) return cached;
+
+  const childIds = getChildIds(folderId);
+  if (!childIds) return undefined;
+
+  const totals: FolderTotals = { size: 0, fileCount: 0, isComplete: true };
+  childIds.forEach((childId) => {
+    const child = getTreeNode(childId);
+    if (!child) return;
+
+    if (child.type === "file") {
+      totals.size += child.size;
+      totals.fileCount++;
+      return;
+    }
+
+    const childTotals = getFolderTotals(childId);
+    if (!childTotals) {
+      totals.isComplete = false;
+      return;
+    }
+    totals.size += childTotals.size;
+    totals.fileCount += childTotals.fileCount;
+    totals.isComplete &&= childTotals.isComplete;
+  });
+
+  cache.set(folderId, totals);
+  return totals;
+}
+
+// Folders under (and including) this one that haven't been listed yet
+export function getUnloadedFolderIds(folderId: string): string[] {
+  const childIds = getChildIds(folderId);
+  if (!childIds) return [folderId];
+  return childIds.filter((childId) => getTreeNode(childId)?.type === "directory").flatMap(getUnloadedFolderIds);
+}
+
+/**
+ * What a selection adds up to: every selected file under the given resources, with excluded children skipped
+ * Covers what's loaded; unloadedFolderIds lists the folders still to crawl for an exact figure.
+ */
+export function summarizeSelection(resourceIds: string[], isSelected: (id: string) => boolean): SelectionSummary {
+  const summary: SelectionSummary = { size: 0, fileCount: 0, byType: [], unloadedFolderIds: [] };
+  const types = new Map<string, { fileCount: number; size: number }>();
+  const visited = new Set<string>();
+
+  const visit = (id: string) => {
+    const node = getTreeNode(id);
+    if (!node || visited.has(id)) return;
+    visited.add(id);
+
+    if (node.type === "directory") {
+      const childIds = getChildIds(id);
+      if (!childIds) {
+        if (isSelected(id)) summary.unloadedFolderIds.push(id);
+        return;
+      }
+      childIds.forEach(visit);
+      return;
+    }
+
+    if (!isSelected(id)) return;
+    summary.size += node.size;
+    summary.fileCount++;
+
+    const label = node.mimeType ? formatMimeType(node.mimeType) : "Other";
+    const type = types.get(label) ?? { fileCount: 0, size: 0 };
+    types.set(label, { fileCount: type.fileCount + 1, size: type.size + node.size });
+  };
+  resourceIds.forEach(visit);
+
+  summary.byType = Array.from(types, ([label, type]) => ({ label, ...type })).sort((a, b) => b.size - a.size);
+  return summary;
+}
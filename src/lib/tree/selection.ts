@@ -0,0 +1,95 @@
+// Tree selection as explicit choices: a checked folder covers everything under it, including children
+// that haven't loaded yet, and a child can opt back out. Marks only exist where a choice differs from
+// what the item would inherit, so any mark below a folder means the folder is partially selected.
+import { getChildIds, getDescendantIds, getTreeNode } from "./fileTreeStore";
+
+export type SelectionMarks = Record<string, boolean>; // true: included, false: excluded from a selected ancestor
+
+function inheritedSelection(marks: SelectionMarks, id: string): boolean {
+  let parentId = getTreeNode(id)?.parentId;
+  while (parentId) {
+    if (parentId in marks) return marks[parentId];
+    parentId = getTreeNode(parentId)?.parentId;
+  }
+  return false;
+}
+
+export function isSelectedIn(marks: SelectionMarks, id: string): boolean {
+  return id in marks ? marks[id] : inheritedSelection(marks, id);
+}
+
+// Check or uncheck an item: its own descendants follow it, so their marks are dropped
+export function applySelection(marks: SelectionMarks, id: string, selected: boolean): SelectionMarks {
+  const next = { ...marks };
+  getDescendantIds(id).forEach((descendantId) => delete next[descendantId]);
+
+  if (inheritedSelection(next, id) === selected) {
+    delete next[id];
+  } else {
+    next[id] = selected;
+  }
+  return next;
+}
+
+// Folders with a mix of selected and unselected items below them
+export function getPartiallySelectedIds(marks: SelectionMarks): Set<string> {
+  const partial = new Set<string>();
+  Object.keys(marks).forEach((id) => {
+    let parentId = getTreeNode(id)?.parentId;
+    while (parentId && !partial.has(parentId)) {
+      partial.add(parentId);
+      parentId = getTreeNode(parentId)?.parentId;
+    }
+  });
+  return partial;
+}
+
+// Selected folders whose contents never loaded; their subfolders are unknown until they're listed
+export function getUnloadedSelectedFolderIds(marks: SelectionMarks): string[] {
+  const unloadedIds: string[] = [];
+
+  const visit = (childIds: string[] | undefined, parentSelected: boolean) => {
+    childIds?.forEach((id) => {
+      const node = getTreeNode(id);
+      if (!node || node.type !== "directory") return;
+
+      const selected = id in marks ? marks[id] : parentSelected;
+      if (selected && !node.childIds) unloadedIds.push(id);
+      visit(node.childIds, selected);
+    });
+  };
+
+  visit(getChildIds(null), false);
+  return unloadedIds;
+}
+
+/**
+ * Turn a selection into resource_ids for the backend
+ * A folder id indexes only the files directly inside it, so a selected folder is sent as-is unless one of
+ * its files was excluded - then its selected files go individually - and every selected subfolder is sent
+ * too. Subfolders of folders that never loaded would be missed: load those first (see
+ * getUnloadedSelectedFolderIds) so the result covers the whole selection.
+ */
+export function resolveSelectedResourceIds(marks: SelectionMarks): string[] {
+  const resourceIds: string[] = [];
+
+  const visit = (childIds: string[] | undefined, parentSelected: boolean, parentSent: boolean) => {
+    childIds?.forEach((id) => {
+      const node = getTreeNode(id);
+      if (!node) return;
+
+      const selected = id in marks ? marks[id] : parentSelected;
+      if (node.type === "file") {
+        if (selected && !parentSent) resourceIds.push(id);
+        return;
+      }
+
+      const sent = selected && !node.childIds?.some((childId) => marks[childId] === false && getTreeNode(childId)?.type === "file");
+      if (sent) resourceIds.push(id);
+      visit(node.childIds, selected, sent);
+    });
+  };
+
+  visit(getChildIds(null), false, false);
+  return resourceIds;
+}
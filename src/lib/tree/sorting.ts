@@ -0,0 +1,33 @@
+// Comparators for the file table's sortable columns. The table hands rows over as a tree (sub-rows are
+// a folder's expanded children), so every comparator only ever sees siblings and the hierarchy stays intact.
+import type { SortingFn } from "@tanstack/react-table";
+import { FileItem, FileStatus } from "@/lib/types/file";
+
+// Hidden column sorted ahead of the user's columns when "folders first" is on
+export const FOLDERS_FIRST_COLUMN = "kind";
+
+// Ascending status order: what needs attention first, settled files last
+const STATUS_ORDER: FileStatus[] = ["error", "failed", "pending", "pending_delete", "indexed", "unknown", "deleted"];
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+function baseName(file: FileItem): string {
+  return file.name.split("/").pop() ?? file.name;
+}
+
+function compareNames(a: FileItem, b: FileItem): number {
+  return collator.compare(baseName(a), baseName(b));
+}
+
+// Ties fall through to the next sorted column, then to listing order. Rows without a value never reach
+// these: the columns set sortUndefined so they go last.
+export const fileSortingFns = {
+  kind: (a, b) => Number(a.original.type === "file") - Number(b.original.type === "file"),
+  name: (a, b) => compareNames(a.original, b.original),
+  size: (a, b) => a.original.size - b.original.size,
+  status: (a, b) => STATUS_ORDER.indexOf(a.original.status!) - STATUS_ORDER.indexOf(b.original.status!),
+  modified: (a, b) => Date.parse(a.original.modified_at!) - Date.parse(b.original.modified_at!),
+  indexed: (a, b) => Date.parse(a.original.indexed_at!) - Date.parse(b.original.indexed_at!),
+  mimeType: (a, b) => collator.compare(a.original.mime_type!, b.original.mime_type!),
+  owner: (a, b) => collator.compare(a.original.owner!, b.original.owner!),
+} satisfies Record<string, SortingFn<FileItem>>;
@@ -0,0 +1,23 @@
+// Auth related types
+export interface AuthStatus {
+  authenticated: boolean;
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+// Tokens issued by the backend's /auth/login and /auth/refresh
+// Only the server-side proxy sees these; they're stored in httpOnly cookies
+export interface LoginResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number; // seconds
+}
+
+// What the proxy tells the browser about the current session
+export interface SessionInfo {
+  email: string;
+  expires_in?: number; // seconds
+}
@@ -0,0 +1,6 @@
+// Connection (Google Drive) related types
+export interface ConnectionInfo {
+  connection_id?: string;
+  name?: string;
+  connection_provider?: string;
+}
@@ -1,12 +1,22 @@
 // Simple types for files and folders
+export const FILE_STATUSES = ["indexed", "pending", "pending_delete", "unknown", "failed", "deleted", "error"] as const;
+export type FileStatus = (typeof FILE_STATUSES)[number];
+
 export interface FileItem {
   id: string;
   name: string;
   type: "file" | "directory";
   size: number;
   mime_type?: string;
-  status?: "indexed" | "pending" | "pending_delete" | "unknown" | "failed" | "deleted" | "error";
+  modified_at?: string; // last change in Drive
+  owner?: string;
+  status?: FileStatus;
   indexed_at?: string;
+  // Failure details, when status is "error"
+  error_message?: string;
+  error_code?: string;
+  last_attempt_at?: string;
+  attempt_count?: number;
   // UI state
   isSelected?: boolean;
   isExpanded?: boolean;
@@ -18,3 +28,22 @@ export interface FileItem {
 export interface FileListResponse {
   data: FileItem[];
 }
+
+// A pushed status transition for one KB file; no status means it left the KB
+export interface FileStatusEvent {
+  id: string;
+  name?: string;
+  type?: FileItem["type"];
+  status?: FileStatus;
+  indexed_at?: string;
+  error_message?: string;
+  error_code?: string;
+  last_attempt_at?: string;
+  attempt_count?: number;
+}
+
+// What the backend reports about a file's last indexing attempt
+export type FileErrorDetails = Pick<FileItem, "error_message" | "error_code" | "last_attempt_at" | "attempt_count">;
+
+// KB status of a loaded folder's children, keyed by file id
+export type FolderStatus = Record<string, Pick<FileItem, "status" | "indexed_at"> & FileErrorDetails>;
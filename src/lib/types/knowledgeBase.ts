@@ -2,12 +2,40 @@
 export interface KnowledgeBase {
   id: string;
   name: string;
+  description?: string;
   created_at: string;
   is_empty: boolean;
+  resource_ids?: string[]; // Drive ids the KB was asked to index (files and folders)
+}
+
+// How the backend chunks, embeds and parses files when indexing
+export interface IndexingParams {
+  chunk_size: number;
+  chunk_overlap: number;
+  embedding_model: string;
+  ocr: boolean;
+  allowed_file_types: string[]; // extensions without the dot; empty means all types
 }
 
 export interface CreateKBRequest {
   name: string;
   description: string;
   resource_ids: string[];
+  indexing_params?: IndexingParams;
+}
+
+// Everything the creation dialog collects besides the selected resources
+export type CreateKBDetails = Omit<CreateKBRequest, "resource_ids">;
+
+export interface UpdateKBRequest {
+  name?: string;
+  description?: string;
+  resource_ids?: string[];
+}
+
+export type SyncKBResponse = Record<string, unknown>;
+
+export interface DeleteKBResourceResponse {
+  success: boolean;
+  message?: string;
 }
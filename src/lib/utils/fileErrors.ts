@@ -0,0 +1,42 @@
+import { FileErrorDetails, FileItem } from "@/lib/types/file";
+
+// Copy just the failure fields, so status caches don't hold on to whole listings
+export function pickErrorDetails(source: FileErrorDetails): FileErrorDetails {
+  return {
+    error_message: source.error_message,
+    error_code: source.error_code,
+    last_attempt_at: source.last_attempt_at,
+    attempt_count: source.attempt_count,
+  };
+}
+
+// Multi-line summary for the status tooltip
+export function describeFileError(file: FileItem): string {
+  return [
+    file.error_message ?? "Indexing failed",
+    file.error_code && `Code: ${file.error_code}`,
+    file.attempt_count !== undefined && `Attempts: ${file.attempt_count}`,
+    file.last_attempt_at && `Last attempt: ${new Date(file.last_attempt_at).toLocaleString()}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// JSON blob for support tickets: enough to find the file and KB on the backend, nothing user-private
+export function buildFileDiagnostics(file: FileItem, kbId: string | null): string {
+  return JSON.stringify(
+    {
+      knowledge_base_id: kbId,
+      resource_id: file.id,
+      name: file.name,
+      mime_type: file.mime_type,
+      size: file.size,
+      status: file.status,
+      ...pickErrorDetails(file),
+      captured_at: new Date().toISOString(),
+      user_agent: typeof navigator !== "undefined" ? navigator.userAgent : undefined,
+    },
+    null,
+    2
+  );
+}
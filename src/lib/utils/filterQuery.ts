@@ -0,0 +1,268 @@
+import { getTreeNode } from "@/lib/tree/fileTreeStore";
+import { FILE_STATUSES, FileItem } from "@/lib/types/file";
+import { formatMimeType } from "./format";
+
+/**
+ * Filter grammar for the file table
+ *   status:error type:pdf size:>5MB path:contracts/ indexed:<2026-01-01 -name:draft "quarterly report"
+ * Terms are separated by spaces and must all match; a leading "-" negates a term, quotes allow spaces,
+ * and words without a field match the name or status like the old search box did.
+ */
+
+export const FILTER_FIELDS = ["name", "status", "type", "size", "path", "indexed", "mime"] as const;
+export type FilterField = (typeof FILTER_FIELDS)[number];
+
+type Comparison = "=" | ">" | "<" | ">=" | "<=";
+
+export interface FilterTerm {
+  field: FilterField | null; // null: free text
+  comparison: Comparison;
+  value: string;
+  negated: boolean;
+  raw: string;
+  start: number; // offsets into the query, for highlighting and removal
+  end: number;
+}
+
+export interface FilterError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedFilter {
+  terms: FilterTerm[];
+  errors: FilterError[];
+}
+
+const COMPARABLE_FIELDS: FilterField[] = ["size", "indexed"];
+const TYPE_VALUES = ["file", "folder"];
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+  unterminated: boolean;
+}
+
+// Split on whitespace outside quotes, keeping offsets
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let inQuotes = false;
+    while (i < query.length && (inQuotes || !/\s/.test(query[i]))) {
+      if (query[i] === '"') inQuotes = !inQuotes;
+      i++;
+    }
+    tokens.push({ text: query.slice(start, i), start, end: i, unterminated: inQuotes });
+  }
+
+  return tokens;
+}
+
+export function parseSize(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * SIZE_UNITS[(match[2] ?? "b").toLowerCase()];
+}
+
+// Local midnight of a YYYY-MM-DD day, since that's the day the user sees in the table
+function parseDate(value: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  // Out-of-range days (2026-02-31) roll over into the next month
+  return date.getMonth() === month - 1 && date.getDate() === day ? date.getTime() : null;
+}
+
+// Local midnight of the following day; not always 24h later around DST changes
+function nextDay(time: number): number {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+}
+
+// "pdf", "png" or "doc" against the extension, the MIME subtype (vnd.google-apps.document) or its label (Google Doc)
+function matchesType(file: FileItem, baseName: string, value: string): boolean {
+  const extension = value.replace(/^\./, "");
+  if (baseName.endsWith(`.${extension}`)) return true;
+  if (!file.mime_type) return false;
+
+  const subtype = file.mime_type.toLowerCase().split("/")[1] ?? "";
+  if (subtype === extension || subtype.split(/[.+-]/).includes(extension)) return true;
+  return formatMimeType(file.mime_type).toLowerCase().split(" ").includes(extension);
+}
+
+// Why a term's value is unusable, if it is
+function validateTerm(term: FilterTerm): string | null {
+  if (!term.value) return term.field ? `"${term.field}:" needs a value` : "Empty search term";
+  if (term.comparison !== "=" && !(term.field && COMPARABLE_FIELDS.includes(term.field))) {
+    return `"${term.field ?? "text"}" can't be compared with ${term.comparison}`;
+  }
+
+  switch (term.field) {
+    case "status":
+      return (FILE_STATUSES as readonly string[]).includes(term.value.toLowerCase()) || term.value.toLowerCase() === "none"
+        ? null
+        : `Unknown status "${term.value}"`;
+    case "size":
+      return parseSize(term.value) === null ? `Invalid size "${term.value}" - try 500KB or 5MB` : null;
+    case "indexed":
+      return parseDate(term.value) === null ? `Invalid date "${term.value}" - use YYYY-MM-DD` : null;
+    default:
+      return null;
+  }
+}
+
+export function parseFilterQuery(query: string): ParsedFilter {
+  const terms: FilterTerm[] = [];
+  const errors: FilterError[] = [];
+
+  tokenize(query).forEach((token) => {
+    if (token.unterminated) {
+      errors.push({ message: "Missing closing quote", start: token.start, end: token.end });
+      return;
+    }
+
+    let text = token.text;
+    const negated = text.startsWith("-") && text.length > 1;
+    if (negated) text = text.slice(1);
+
+    let field: FilterField | null = null;
+    const fieldMatch = /^([a-z_]+):(.*)$/i.exec(text);
+    if (fieldMatch) {
+      const name = fieldMatch[1].toLowerCase();
+      if (!(FILTER_FIELDS as readonly string[]).includes(name)) {
+        errors.push({ message: `Unknown field "${fieldMatch[1]}"`, start: token.start, end: token.end });
+        return;
+      }
+      field = name as FilterField;
+      text = fieldMatch[2];
+    }
+
+    const comparisonMatch = /^(>=|<=|>|<)/.exec(text);
+    const comparison: Comparison = (comparisonMatch?.[1] as Comparison | undefined) ?? "=";
+    const value = text.slice(comparisonMatch?.[1].length ?? 0).replace(/^"(.*)"$/, "$1");
+
+    const term: FilterTerm = { field, comparison, value, negated, raw: token.text, start: token.start, end: token.end };
+    const error = validateTerm(term);
+    if (error) {
+      errors.push({ message: error, start: token.start, end: token.end });
+    } else {
+      terms.push(term);
+    }
+  });
+
+  return { terms, errors };
+}
+
+function compare(actual: number, comparison: Comparison, expected: number): boolean {
+  switch (comparison) {
+    case ">":
+      return actual > expected;
+    case "<":
+      return actual < expected;
+    case ">=":
+      return actual >= expected;
+    case "<=":
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+function matchesTerm(file: FileItem, term: FilterTerm): boolean {
+  const value = term.value.toLowerCase();
+  const baseName = (file.name.split("/").pop() ?? file.name).toLowerCase();
+
+  switch (term.field) {
+    case null:
+      return file.name.toLowerCase().includes(value) || (file.status?.toLowerCase() ?? "").includes(value);
+    case "name":
+      return baseName.includes(value);
+    case "status":
+      return value === "none" ? !file.status || file.status === "unknown" : file.status === value;
+    case "type":
+      if (value === "folder" || value === "directory") return file.type === "directory";
+      if (value === "file") return file.type === "file";
+      return file.type === "file" && matchesType(file, baseName, value);
+    case "size":
+      return file.type === "file" && compare(file.size, term.comparison, parseSize(term.value)!);
+    case "path":
+      return (getTreeNode(file.id)?.path ?? file.name).toLowerCase().includes(value);
+    case "indexed": {
+      if (!file.indexed_at) return false;
+      const day = parseDate(term.value)!;
+      const indexedAt = Date.parse(file.indexed_at);
+      // Dates are whole local days: ":" is that day, ">" starts after it and "<=" runs to its end
+      switch (term.comparison) {
+        case "=":
+          return indexedAt >= day && indexedAt < nextDay(day);
+        case ">":
+          return indexedAt >= nextDay(day);
+        case "<=":
+          return indexedAt < nextDay(day);
+        default:
+          return compare(indexedAt, term.comparison, day);
+      }
+    }
+    case "mime":
+      return (file.mime_type ?? "").toLowerCase().includes(value);
+  }
+}
+
+export function matchesFilter(file: FileItem, filter: ParsedFilter): boolean {
+  return filter.terms.every((term) => matchesTerm(file, term) !== term.negated);
+}
+
+// Table filterFns run once per row, so keep the last parse around
+let lastQuery: string | null = null;
+let lastParsed: ParsedFilter = { terms: [], errors: [] };
+
+export function matchesFilterQuery(file: FileItem, query: string): boolean {
+  if (query !== lastQuery) {
+    lastQuery = query;
+    lastParsed = parseFilterQuery(query);
+  }
+  return matchesFilter(file, lastParsed);
+}
+
+export interface FilterSuggestions {
+  start: number; // range of the query the chosen suggestion replaces
+  end: number;
+  suggestions: string[];
+}
+
+// Completions for the term under the cursor: field names, then values for status/type
+export function getFilterSuggestions(query: string, cursor: number): FilterSuggestions {
+  let start = cursor;
+  while (start > 0 && !/\s/.test(query[start - 1])) start--;
+  let end = cursor;
+  while (end < query.length && !/\s/.test(query[end])) end++;
+
+  const prefix = query[start] === "-" ? "-" : "";
+  const text = query.slice(start + prefix.length, cursor).toLowerCase();
+  const fieldMatch = /^([a-z]+):(.*)$/.exec(text);
+
+  if (!fieldMatch) {
+    const suggestions = text ? FILTER_FIELDS.filter((field) => field.startsWith(text)).map((field) => `${prefix}${field}:`) : [];
+    return { start, end, suggestions };
+  }
+
+  const [, field, partial] = fieldMatch;
+  const values = field === "status" ? [...FILE_STATUSES, "none"] : field === "type" ? TYPE_VALUES : [];
+  return {
+    start,
+    end,
+    suggestions: values.filter((value) => value.startsWith(partial) && value !== partial).map((value) => `${prefix}${field}:${value}`),
+  };
+}
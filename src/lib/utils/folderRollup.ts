@@ -0,0 +1,39 @@
+import { FileItem } from "@/lib/types/file";
+
+export interface FolderRollup {
+  total: number;
+  indexed: number;
+  pending: number;
+  pending_delete: number;
+  error: number;
+}
+
+/**
+ * Aggregate KB file statuses onto every ancestor folder
+ * Keyed by folder path as Drive names it ("Contracts", "Contracts/2025"), so a folder row
+ * can look itself up by file.name whether or not it has been expanded.
+ */
+export function computeFolderRollups(files: FileItem[]): Map<string, FolderRollup> {
+  const rollups = new Map<string, FolderRollup>();
+
+  files.forEach((file) => {
+    if (file.type !== "file") return;
+
+    const segments = file.name.split("/");
+    for (let depth = 1; depth < segments.length; depth++) {
+      const folderPath = segments.slice(0, depth).join("/");
+      let rollup = rollups.get(folderPath);
+      if (!rollup) {
+        rollup = { total: 0, indexed: 0, pending: 0, pending_delete: 0, error: 0 };
+        rollups.set(folderPath, rollup);
+      }
+
+      rollup.total++;
+      if (file.status === "indexed" || file.status === "pending" || file.status === "pending_delete" || file.status === "error") {
+        rollup[file.status]++;
+      }
+    }
+  });
+
+  return rollups;
+}
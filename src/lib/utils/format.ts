@@ -0,0 +1,66 @@
+// Human-readable formatting shared by table cells and summaries
+
+export function formatBytes(bytes: number): string {
+  if (bytes > 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  }
+  if (bytes > 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  if (bytes > 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${bytes} B`;
+}
+
+// Rough duration for ETAs, e.g. "45s", "3m", "1h 20m"
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+}
+
+const MIME_LABELS: Record<string, string> = {
+  "application/pdf": "PDF",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "Word",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "Excel",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": "PowerPoint",
+  "application/vnd.google-apps.document": "Google Doc",
+  "application/vnd.google-apps.spreadsheet": "Google Sheet",
+  "text/markdown": "Markdown",
+  "text/plain": "Text",
+  "text/csv": "CSV",
+};
+
+// Short label for a MIME type, e.g. "PDF" or "PNG image"
+export function formatMimeType(mimeType: string): string {
+  if (MIME_LABELS[mimeType]) return MIME_LABELS[mimeType];
+
+  const [kind, subtype = ""] = mimeType.split("/");
+  const label = subtype.replace(/^(vnd\.|x-)/, "").toUpperCase();
+  return kind === "image" || kind === "audio" || kind === "video" ? `${label} ${kind}` : label || mimeType;
+}
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60 * 1000],
+  ["month", 30 * 24 * 60 * 60 * 1000],
+  ["week", 7 * 24 * 60 * 60 * 1000],
+  ["day", 24 * 60 * 60 * 1000],
+  ["hour", 60 * 60 * 1000],
+  ["minute", 60 * 1000],
+];
+
+const relativeTimeFormat = new Intl.RelativeTimeFormat(undefined, { numeric: "auto", style: "short" });
+
+// Time since a past date, e.g. "3 hr. ago" or "yesterday"; under a minute is "just now"
+export function formatRelativeTime(date: Date, now = Date.now()): string {
+  const elapsed = now - date.getTime();
+  const unit = RELATIVE_UNITS.find(([, ms]) => Math.abs(elapsed) >= ms);
+  if (!unit) return "just now";
+  return relativeTimeFormat.format(-Math.round(elapsed / unit[1]), unit[0]);
+}
@@ -0,0 +1,59 @@
+import type { CreateKBDetails, IndexingParams } from "@/lib/types/knowledgeBase";
+
+export const EMBEDDING_MODELS = ["text-embedding-3-small", "text-embedding-3-large", "text-embedding-ada-002"] as const;
+
+export const FILE_TYPE_OPTIONS = ["pdf", "docx", "xlsx", "pptx", "md", "txt", "csv", "png", "jpg"] as const;
+
+export const DEFAULT_INDEXING_PARAMS: IndexingParams = {
+  chunk_size: 1500,
+  chunk_overlap: 500,
+  embedding_model: "text-embedding-3-small",
+  ocr: false,
+  allowed_file_types: [],
+};
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MIN_CHUNK_SIZE = 100;
+const MAX_CHUNK_SIZE = 8000;
+
+export type CreateKBFormErrors = Partial<Record<"name" | "description" | "chunk_size" | "chunk_overlap" | "embedding_model", string>>;
+
+/**
+ * Validate the KB creation form
+ * Returns an empty object when the details can be sent to the backend
+ */
+export function validateCreateKBDetails(details: CreateKBDetails, existingNames: string[] = []): CreateKBFormErrors {
+  const errors: CreateKBFormErrors = {};
+  const name = details.name.trim();
+  const params = details.indexing_params ?? DEFAULT_INDEXING_PARAMS;
+
+  if (!name) {
+    errors.name = "Name is required";
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.name = `Name must be at most ${MAX_NAME_LENGTH} characters`;
+  } else if (existingNames.some((existing) => existing.trim().toLowerCase() === name.toLowerCase())) {
+    // Duplicate names are what made KBs indistinguishable in the first place
+    errors.name = "A knowledge base with this name already exists";
+  }
+
+  if (details.description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.description = `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+
+  if (!Number.isInteger(params.chunk_size) || params.chunk_size < MIN_CHUNK_SIZE || params.chunk_size > MAX_CHUNK_SIZE) {
+    errors.chunk_size = `Chunk size must be a whole number between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE}`;
+  }
+
+  if (!Number.isInteger(params.chunk_overlap) || params.chunk_overlap < 0) {
+    errors.chunk_overlap = "Chunk overlap must be a whole number of 0 or more";
+  } else if (params.chunk_overlap >= params.chunk_size) {
+    errors.chunk_overlap = "Chunk overlap must be smaller than the chunk size";
+  }
+
+  if (!(EMBEDDING_MODELS as readonly string[]).includes(params.embedding_model)) {
+    errors.embedding_model = "Choose a supported embedding model";
+  }
+
+  return errors;
+}
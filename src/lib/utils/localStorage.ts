@@ -1,4 +1,10 @@
-const KB_STORAGE_KEY = "stackai_knowledge_base";
+import { Validator, arrayOf, boolean, number, object, recordOf, string } from "@/lib/api/validators";
+
+const KB_REGISTRY_KEY = "stackai_knowledge_bases";
+const ACTIVE_KB_KEY = "stackai_active_knowledge_base";
+const KB_OWNER_KEY = "stackai_knowledge_bases_owner"; // email of the user the stored KBs belong to
+const LEGACY_KB_STORAGE_KEY = "stackai_knowledge_base"; // single-KB slot used before the registry
+const TABLE_LAYOUT_KEY = "stackai_table_layout"; // suffixed with the user's email
 
 export interface KBStorageData {
   id: string;
@@ -6,32 +12,146 @@ export interface KBStorageData {
   created_at: string;
 }
 
-export function saveKBToStorage(kb: KBStorageData): void {
+// Move a KB saved by the single-slot version into the registry
+function migrateLegacyKB(): void {
+  const legacy = localStorage.getItem(LEGACY_KB_STORAGE_KEY);
+  if (!legacy) return;
+
+  const kb: KBStorageData = JSON.parse(legacy);
+  localStorage.setItem(KB_REGISTRY_KEY, JSON.stringify([kb]));
+  localStorage.setItem(ACTIVE_KB_KEY, kb.id);
+  localStorage.removeItem(LEGACY_KB_STORAGE_KEY);
+}
+
+export function getKBRegistry(): KBStorageData[] {
   try {
-    localStorage.setItem(KB_STORAGE_KEY, JSON.stringify(kb));
+    migrateLegacyKB();
+    const stored = localStorage.getItem(KB_REGISTRY_KEY);
+    return stored ? JSON.parse(stored) : [];
   } catch (error) {
-    console.error("Failed to save KB to localStorage:", error);
+    console.error("Failed to get KB registry from localStorage:", error);
+    return [];
   }
 }
 
-export function getKBFromStorage(): KBStorageData | null {
+function saveKBRegistry(registry: KBStorageData[]): void {
+  try {
+    localStorage.setItem(KB_REGISTRY_KEY, JSON.stringify(registry));
+  } catch (error) {
+    console.error("Failed to save KB registry to localStorage:", error);
+  }
+}
+
+// Add or update a KB in the registry
+export function upsertKBInRegistry(kb: KBStorageData): void {
+  const registry = getKBRegistry().filter((entry) => entry.id !== kb.id);
+  saveKBRegistry([...registry, kb]);
+}
+
+export function removeKBFromRegistry(kbId: string): void {
+  saveKBRegistry(getKBRegistry().filter((entry) => entry.id !== kbId));
+  if (getActiveKBId() === kbId) {
+    setActiveKBId(null);
+  }
+}
+
+export function getActiveKBId(): string | null {
   try {
-    const stored = localStorage.getItem(KB_STORAGE_KEY);
-    return stored ? JSON.parse(stored) : null;
+    migrateLegacyKB();
+    return localStorage.getItem(ACTIVE_KB_KEY);
   } catch (error) {
-    console.error("Failed to get KB from localStorage:", error);
+    console.error("Failed to get active KB from localStorage:", error);
     return null;
   }
 }
 
+export function setActiveKBId(kbId: string | null): void {
+  try {
+    if (kbId) {
+      localStorage.setItem(ACTIVE_KB_KEY, kbId);
+    } else {
+      localStorage.removeItem(ACTIVE_KB_KEY);
+    }
+  } catch (error) {
+    console.error("Failed to save active KB to localStorage:", error);
+  }
+}
+
+// Register a KB and make it the active one
+export function saveKBToStorage(kb: KBStorageData): void {
+  upsertKBInRegistry(kb);
+  setActiveKBId(kb.id);
+}
+
+// The active KB, if any
+export function getKBFromStorage(): KBStorageData | null {
+  const activeId = getActiveKBId();
+  return getKBRegistry().find((kb) => kb.id === activeId) ?? null;
+}
+
+// Forget every stored KB (e.g. on logout)
 export function clearKBFromStorage(): void {
   try {
-    localStorage.removeItem(KB_STORAGE_KEY);
+    localStorage.removeItem(KB_REGISTRY_KEY);
+    localStorage.removeItem(ACTIVE_KB_KEY);
+    localStorage.removeItem(KB_OWNER_KEY);
+    localStorage.removeItem(LEGACY_KB_STORAGE_KEY);
   } catch (error) {
     console.error("Failed to clear KB from localStorage:", error);
   }
 }
 
+// Hand the stored KBs to whoever just signed in: kept for the same user, dropped for anyone else
+export function claimKBStorage(email: string): void {
+  try {
+    const owner = localStorage.getItem(KB_OWNER_KEY);
+    if (owner !== null && owner !== email) clearKBFromStorage();
+    localStorage.setItem(KB_OWNER_KEY, email);
+  } catch (error) {
+    console.error("Failed to update KB owner in localStorage:", error);
+  }
+}
+
 export function hasStoredKB(): boolean {
   return getKBFromStorage() !== null;
-} 
\ No newline at end of file
+}
+
+// File table columns as the user arranged them; kept across logouts, one layout per account
+export interface TableLayout {
+  columnOrder: string[];
+  columnVisibility: Record<string, boolean>;
+  columnSizing: Record<string, number>;
+}
+
+// Stored layouts outlive code changes and can be edited by hand, so they're checked before use
+const tableLayoutSchema: Validator<TableLayout> = object({
+  columnOrder: arrayOf(string),
+  columnVisibility: recordOf(boolean),
+  columnSizing: recordOf(number),
+});
+
+export function getTableLayout(userEmail: string): TableLayout | null {
+  try {
+    const stored = localStorage.getItem(`${TABLE_LAYOUT_KEY}:${userEmail}`);
+    return stored ? tableLayoutSchema(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.error("Failed to get table layout from localStorage:", error);
+    return null;
+  }
+}
+
+export function saveTableLayout(userEmail: string, layout: TableLayout): void {
+  try {
+    localStorage.setItem(`${TABLE_LAYOUT_KEY}:${userEmail}`, JSON.stringify(layout));
+  } catch (error) {
+    console.error("Failed to save table layout to localStorage:", error);
+  }
+}
+
+export function clearTableLayout(userEmail: string): void {
+  try {
+    localStorage.removeItem(`${TABLE_LAYOUT_KEY}:${userEmail}`);
+  } catch (error) {
+    console.error("Failed to clear table layout from localStorage:", error);
+  }
+}